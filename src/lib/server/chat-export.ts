@@ -0,0 +1,313 @@
+import {
+	getActivePath,
+	getMessageTree,
+	listThreadsForUser,
+	parseThreadCursor,
+	type ChatPathMessage,
+	type ChatThreadSummary,
+	type ThreadCursor
+} from './chats';
+import { listFoldersForUser } from './chat-folders';
+import type { ZipEntry } from './zip';
+
+export type ExportFormat = 'md' | 'json' | 'html';
+
+export interface ThreadExport {
+	thread: ChatThreadSummary;
+	messages: ChatPathMessage[];
+	exportedAt: string;
+}
+
+export interface RenderedExport {
+	body: string;
+	contentType: string;
+	fileName: string;
+}
+
+// Raven JSON exports carry this marker so they can be recognised when imported again.
+export const RAVEN_EXPORT_FORMAT = 'raven.thread';
+export const RAVEN_EXPORT_VERSION = 1;
+
+const EXPORT_FORMATS: ExportFormat[] = ['md', 'json', 'html'];
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+	md: 'text/markdown; charset=utf-8',
+	json: 'application/json; charset=utf-8',
+	html: 'text/html; charset=utf-8'
+};
+const EXPORT_PAGE_SIZE = 100;
+const MAX_FILE_NAME_CHARS = 60;
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+	return typeof value === 'string' && EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+// Only the active branch is exported, which is the conversation as the user currently sees it.
+export async function loadThreadExport(userId: string, thread: ChatThreadSummary): Promise<ThreadExport> {
+	const tree = await getMessageTree(userId, thread.id);
+	return {
+		thread,
+		messages: getActivePath(tree),
+		exportedAt: new Date().toISOString()
+	};
+}
+
+function toFileSlug(value: string, fallback: string): string {
+	const slug = value
+		.normalize('NFKD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, '-')
+		.replace(/^-+|-+$/g, '')
+		.slice(0, MAX_FILE_NAME_CHARS)
+		.replace(/-+$/, '');
+	return slug || fallback;
+}
+
+export function buildExportFileName(thread: ChatThreadSummary, format: ExportFormat): string {
+	return `${thread.createdAt.slice(0, 10)}-${toFileSlug(thread.title, 'chat')}-${thread.id.slice(0, 8)}.${format}`;
+}
+
+function formatTimestamp(value: string): string {
+	const date = new Date(value);
+	if (Number.isNaN(date.valueOf())) {
+		return value;
+	}
+	return `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+function roleLabel(message: ChatPathMessage): string {
+	return message.role === 'user' ? 'User' : 'Assistant';
+}
+
+function describeGeneration(message: ChatPathMessage): string[] {
+	const generation = message.generation;
+	const details: string[] = [];
+	if (generation) {
+		const model = [generation.provider, generation.model].filter(Boolean).join(' / ');
+		if (model) {
+			details.push(generation.usedFallback ? `${model} (fallback)` : model);
+		}
+		if (generation.promptTokens !== null || generation.completionTokens !== null) {
+			details.push(`${generation.promptTokens ?? 0} prompt + ${generation.completionTokens ?? 0} completion tokens`);
+		}
+		if (generation.latencyMs !== null) {
+			details.push(`${(generation.latencyMs / 1000).toFixed(1)}s`);
+		}
+		if (generation.finishReason) {
+			details.push(`finish: ${generation.finishReason}`);
+		}
+	}
+	if (message.stopped) {
+		details.push('stopped early');
+	}
+	if (message.siblingIds.length > 1) {
+		details.push(`version ${message.siblingIds.indexOf(message.id) + 1} of ${message.siblingIds.length}`);
+	}
+	return details;
+}
+
+function describeThread(data: ThreadExport): string[] {
+	const { thread } = data;
+	const lines = [
+		`Created: ${formatTimestamp(thread.createdAt)}`,
+		`Updated: ${formatTimestamp(thread.updatedAt)}`,
+		`Exported: ${formatTimestamp(data.exportedAt)}`
+	];
+	if (thread.tags.length > 0) {
+		lines.push(`Tags: ${thread.tags.join(', ')}`);
+	}
+	if (thread.archivedAt) {
+		lines.push(`Archived: ${formatTimestamp(thread.archivedAt)}`);
+	}
+	return lines;
+}
+
+function fence(content: string, language = ''): string {
+	const longestRun = Math.max(2, ...(content.match(/`+/g) ?? []).map((run) => run.length));
+	const marker = '`'.repeat(longestRun + 1);
+	return `${marker}${language}\n${content}\n${marker}`;
+}
+
+export function renderThreadMarkdown(data: ThreadExport): string {
+	const sections = [`# ${data.thread.title}`, describeThread(data).map((line) => `- ${line}`).join('\n')];
+
+	for (const message of data.messages) {
+		const lines = [`## ${roleLabel(message)} · ${formatTimestamp(message.createdAt)}`];
+		const details = describeGeneration(message);
+		if (details.length > 0) {
+			lines.push(`> ${details.join(' · ')}`);
+		}
+		if (message.reasoning) {
+			lines.push(`<details>\n<summary>Reasoning</summary>\n\n${message.reasoning}\n\n</details>`);
+		}
+		for (const part of message.parts) {
+			if (part.type === 'tool_call') {
+				lines.push(`**Tool call: ${part.name}**\n\n${fence(part.arguments, 'json')}`);
+			} else {
+				lines.push(`**Tool result: ${part.name}${part.isError ? ' (error)' : ''}**\n\n${fence(part.content)}`);
+			}
+		}
+		if (message.content) {
+			lines.push(message.content);
+		}
+		if (message.attachments.length > 0) {
+			lines.push(`Attachments: ${message.attachments.join(', ')}`);
+		}
+		sections.push(lines.join('\n\n'));
+	}
+
+	return `${sections.join('\n\n---\n\n')}\n`;
+}
+
+export function renderThreadJson(data: ThreadExport): string {
+	const { thread } = data;
+	return `${JSON.stringify(
+		{
+			format: RAVEN_EXPORT_FORMAT,
+			version: RAVEN_EXPORT_VERSION,
+			exportedAt: data.exportedAt,
+			thread: {
+				id: thread.id,
+				title: thread.title,
+				createdAt: thread.createdAt,
+				updatedAt: thread.updatedAt,
+				pinned: thread.pinned,
+				archivedAt: thread.archivedAt,
+				tags: thread.tags
+			},
+			messages: data.messages.map((message) => ({
+				id: message.id,
+				parentId: message.parentId,
+				role: message.role,
+				content: message.content,
+				attachments: message.attachments,
+				reasoning: message.reasoning,
+				stopped: message.stopped,
+				parts: message.parts,
+				generation: message.generation,
+				createdAt: message.createdAt
+			}))
+		},
+		null,
+		2
+	)}\n`;
+}
+
+function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+const HTML_STYLES = `
+:root { color-scheme: light dark; --bg: #f7f7f8; --card: #ffffff; --text: #1f2328; --muted: #6b7280; --border: #e5e7eb; --user: #eef2ff; --code: #f3f4f6; }
+@media (prefers-color-scheme: dark) { :root { --bg: #16181d; --card: #1f2228; --text: #e6e6e6; --muted: #9ca3af; --border: #2d3139; --user: #262b3d; --code: #2a2e36; } }
+* { box-sizing: border-box; }
+body { margin: 0; background: var(--bg); color: var(--text); font: 15px/1.6 system-ui, -apple-system, "Segoe UI", sans-serif; }
+main { max-width: 820px; margin: 0 auto; padding: 32px 20px 64px; }
+h1 { margin: 0 0 8px; font-size: 1.6rem; }
+.meta { margin: 0 0 24px; padding: 0; list-style: none; color: var(--muted); font-size: 0.85rem; }
+.message { margin: 16px 0; padding: 14px 16px; border: 1px solid var(--border); border-radius: 12px; background: var(--card); }
+.message.user { background: var(--user); }
+.message header { display: flex; flex-wrap: wrap; gap: 8px; align-items: baseline; margin-bottom: 8px; }
+.role { font-weight: 600; }
+.time, .details, .attachments { color: var(--muted); font-size: 0.8rem; }
+.content { white-space: pre-wrap; overflow-wrap: anywhere; }
+details, .tool { margin: 8px 0; padding: 8px 10px; border-radius: 8px; background: var(--code); font-size: 0.85rem; }
+summary, .tool strong { cursor: pointer; font-weight: 600; }
+pre { margin: 6px 0 0; white-space: pre-wrap; overflow-wrap: anywhere; font: 0.8rem/1.5 ui-monospace, SFMono-Regular, Menlo, monospace; }
+footer { margin-top: 32px; color: var(--muted); font-size: 0.75rem; text-align: center; }
+`;
+
+function renderHtmlMessage(message: ChatPathMessage): string {
+	const details = describeGeneration(message);
+	const blocks = [
+		`<header><span class="role">${roleLabel(message)}</span><time class="time" datetime="${escapeHtml(message.createdAt)}">${escapeHtml(formatTimestamp(message.createdAt))}</time>${details.length > 0 ? `<span class="details">${escapeHtml(details.join(' · '))}</span>` : ''}</header>`
+	];
+	if (message.reasoning) {
+		blocks.push(`<details><summary>Reasoning</summary><pre>${escapeHtml(message.reasoning)}</pre></details>`);
+	}
+	for (const part of message.parts) {
+		if (part.type === 'tool_call') {
+			blocks.push(`<div class="tool"><strong>Tool call: ${escapeHtml(part.name)}</strong><pre>${escapeHtml(part.arguments)}</pre></div>`);
+		} else {
+			blocks.push(
+				`<div class="tool"><strong>Tool result: ${escapeHtml(part.name)}${part.isError ? ' (error)' : ''}</strong><pre>${escapeHtml(part.content)}</pre></div>`
+			);
+		}
+	}
+	if (message.content) {
+		blocks.push(`<div class="content">${escapeHtml(message.content)}</div>`);
+	}
+	if (message.attachments.length > 0) {
+		blocks.push(`<p class="attachments">Attachments: ${escapeHtml(message.attachments.join(', '))}</p>`);
+	}
+	return `<article class="message ${message.role}" id="message-${message.id}">${blocks.join('')}</article>`;
+}
+
+// A single self-contained file: styles are inlined and nothing is loaded from the network.
+export function renderThreadHtml(data: ThreadExport): string {
+	const title = escapeHtml(data.thread.title);
+	return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+<h1>${title}</h1>
+<ul class="meta">${describeThread(data)
+		.map((line) => `<li>${escapeHtml(line)}</li>`)
+		.join('')}</ul>
+${data.messages.map(renderHtmlMessage).join('\n')}
+<footer>Exported from Raven on ${escapeHtml(formatTimestamp(data.exportedAt))}</footer>
+</main>
+</body>
+</html>
+`;
+}
+
+export function renderThreadExport(data: ThreadExport, format: ExportFormat): RenderedExport {
+	const body =
+		format === 'md' ? renderThreadMarkdown(data) : format === 'json' ? renderThreadJson(data) : renderThreadHtml(data);
+	return {
+		body,
+		contentType: CONTENT_TYPES[format],
+		fileName: buildExportFileName(data.thread, format)
+	};
+}
+
+async function* listAllThreads(userId: string, archived: boolean): AsyncGenerator<ChatThreadSummary> {
+	let cursor: ThreadCursor | null = null;
+	do {
+		const page = await listThreadsForUser(userId, { cursor, limit: EXPORT_PAGE_SIZE, archived });
+		yield* page.threads;
+		cursor = page.nextCursor ? parseThreadCursor(page.nextCursor) : null;
+	} while (cursor);
+}
+
+// Threads are loaded one at a time as the zip is written, so large histories never sit in memory at once.
+export async function* generateExportEntries(userId: string, format: ExportFormat): AsyncGenerator<ZipEntry> {
+	const folders = new Map((await listFoldersForUser(userId)).map((folder) => [folder.id, folder.name]));
+
+	for (const archived of [false, true]) {
+		for await (const thread of listAllThreads(userId, archived)) {
+			const folderName = thread.folderId ? folders.get(thread.folderId) : undefined;
+			const directory = [archived ? 'archived' : null, folderName ? toFileSlug(folderName, 'folder') : null]
+				.filter(Boolean)
+				.join('/');
+			const rendered = renderThreadExport(await loadThreadExport(userId, thread), format);
+			yield {
+				name: directory ? `${directory}/${rendered.fileName}` : rendered.fileName,
+				data: rendered.body,
+				modifiedAt: new Date(thread.updatedAt)
+			};
+		}
+	}
+}
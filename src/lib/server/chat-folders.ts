@@ -0,0 +1,172 @@
+import { env as privateEnv } from '$env/dynamic/private';
+import { env as publicEnv } from '$env/dynamic/public';
+
+export interface ChatFolder {
+	id: string;
+	name: string;
+	createdAt: string;
+}
+
+const MAX_FOLDER_NAME_LENGTH = 40;
+const MAX_FOLDERS = 100;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+function isUuid(value: string): boolean {
+	return UUID_PATTERN.test(value);
+}
+
+function getSupabaseConfig() {
+	const url = privateEnv.SUPABASE_URL || publicEnv.PUBLIC_SUPABASE_URL;
+	const serviceRoleKey = privateEnv.SUPABASE_SERVICE_ROLE_KEY;
+
+	if (!url) {
+		throw new Error('Missing SUPABASE_URL or PUBLIC_SUPABASE_URL.');
+	}
+	if (!serviceRoleKey) {
+		throw new Error('Missing SUPABASE_SERVICE_ROLE_KEY.');
+	}
+
+	return {
+		url: url.endsWith('/') ? url.slice(0, -1) : url,
+		serviceRoleKey
+	};
+}
+
+async function restRequest(pathWithQuery: string, init: RequestInit = {}) {
+	const { url, serviceRoleKey } = getSupabaseConfig();
+	const headers = new Headers(init.headers ?? {});
+	headers.set('apikey', serviceRoleKey);
+	headers.set('Authorization', `Bearer ${serviceRoleKey}`);
+	if (!headers.has('Content-Type') && init.body) {
+		headers.set('Content-Type', 'application/json');
+	}
+
+	return fetch(`${url}${pathWithQuery}`, {
+		...init,
+		headers
+	});
+}
+
+function parseFolderRow(row: unknown): ChatFolder | null {
+	if (!row || typeof row !== 'object') {
+		return null;
+	}
+
+	const record = row as Record<string, unknown>;
+	if (typeof record.id !== 'string' || typeof record.name !== 'string' || typeof record.created_at !== 'string') {
+		return null;
+	}
+
+	return {
+		id: record.id,
+		name: record.name,
+		createdAt: record.created_at
+	};
+}
+
+async function readFolderRows(response: Response, action: string): Promise<ChatFolder[]> {
+	if (!response.ok) {
+		const details = await response.text();
+		throw new Error(`Failed to ${action} (${response.status}): ${details}`);
+	}
+
+	const payload = (await response.json()) as unknown;
+	if (!Array.isArray(payload)) {
+		return [];
+	}
+
+	return payload.map(parseFolderRow).filter((row): row is ChatFolder => row !== null);
+}
+
+export function normalizeFolderName(value: unknown): string {
+	if (typeof value !== 'string') {
+		return '';
+	}
+	return value.trim().replace(/\s+/g, ' ').slice(0, MAX_FOLDER_NAME_LENGTH);
+}
+
+export async function listFoldersForUser(userId: string): Promise<ChatFolder[]> {
+	const response = await restRequest(
+		`/rest/v1/chat_folders?select=id,name,created_at&user_id=eq.${userId}&order=name.asc&limit=${MAX_FOLDERS}`
+	);
+	return readFolderRows(response, 'list folders');
+}
+
+export async function getFolderForUser(userId: string, folderId: string): Promise<ChatFolder | null> {
+	if (!isUuid(folderId)) {
+		return null;
+	}
+
+	const response = await restRequest(
+		`/rest/v1/chat_folders?select=id,name,created_at&id=eq.${folderId}&user_id=eq.${userId}&limit=1`
+	);
+	return (await readFolderRows(response, 'fetch folder'))[0] ?? null;
+}
+
+export async function createFolderForUser(userId: string, name: string): Promise<ChatFolder> {
+	const response = await restRequest('/rest/v1/chat_folders', {
+		method: 'POST',
+		headers: {
+			Prefer: 'return=representation'
+		},
+		body: JSON.stringify([
+			{
+				user_id: userId,
+				name: normalizeFolderName(name)
+			}
+		])
+	});
+
+	const folder = (await readFolderRows(response, 'create folder'))[0];
+	if (!folder) {
+		throw new Error('Failed to create folder: invalid response.');
+	}
+	return folder;
+}
+
+export async function renameFolderForUser(userId: string, folderId: string, name: string): Promise<ChatFolder | null> {
+	if (!isUuid(folderId)) {
+		return null;
+	}
+
+	const response = await restRequest(`/rest/v1/chat_folders?id=eq.${folderId}&user_id=eq.${userId}`, {
+		method: 'PATCH',
+		headers: {
+			Prefer: 'return=representation'
+		},
+		body: JSON.stringify({
+			name: normalizeFolderName(name)
+		})
+	});
+	return (await readFolderRows(response, 'rename folder'))[0] ?? null;
+}
+
+// Chats in a deleted folder are kept and move back to the main list.
+export async function deleteFolderForUser(userId: string, folderId: string): Promise<boolean> {
+	if (!isUuid(folderId)) {
+		return false;
+	}
+
+	const unfileResponse = await restRequest(`/rest/v1/chat_threads?folder_id=eq.${folderId}&user_id=eq.${userId}`, {
+		method: 'PATCH',
+		headers: {
+			Prefer: 'return=minimal'
+		},
+		body: JSON.stringify({
+			folder_id: null
+		})
+	});
+
+	if (!unfileResponse.ok) {
+		const details = await unfileResponse.text();
+		throw new Error(`Failed to move chats out of folder (${unfileResponse.status}): ${details}`);
+	}
+
+	const response = await restRequest(`/rest/v1/chat_folders?id=eq.${folderId}&user_id=eq.${userId}`, {
+		method: 'DELETE',
+		headers: {
+			Prefer: 'return=representation'
+		}
+	});
+	return (await readFolderRows(response, 'delete folder')).length > 0;
+}
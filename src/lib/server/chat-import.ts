@@ -0,0 +1,430 @@
+import {
+	addMessageToThread,
+	createThreadForUser,
+	deleteThreadForUser,
+	findImportedThreads,
+	getThreadForUser,
+	isUuid,
+	normalizeParts,
+	normalizeThreadTags,
+	parseGeneration,
+	touchThread,
+	updateThreadForUser,
+	type ChatMessagePart,
+	type GenerationMetadata,
+	type StoredMessageRole,
+	type ThreadUpdate
+} from './chats';
+import { RAVEN_EXPORT_FORMAT, RAVEN_EXPORT_VERSION } from './chat-export';
+
+export type ImportSource = 'chatgpt' | 'raven';
+export type ImportStatus = 'imported' | 'skipped' | 'failed';
+
+export interface ImportedMessage {
+	role: StoredMessageRole;
+	content: string;
+	attachments: string[];
+	reasoning: string | null;
+	stopped: boolean;
+	parts: ChatMessagePart[];
+	generation: GenerationMetadata | null;
+	createdAt: string | null;
+}
+
+export interface ImportedConversation {
+	source: ImportSource;
+	importId: string;
+	title: string;
+	createdAt: string | null;
+	updatedAt: string | null;
+	messages: ImportedMessage[];
+	// Only Raven exports carry organization that can be restored.
+	organization: ThreadUpdate | null;
+}
+
+export interface ImportResult {
+	importId: string | null;
+	title: string;
+	status: ImportStatus;
+	threadId: string | null;
+	messageCount: number;
+	error: string | null;
+}
+
+export interface ParsedImport {
+	source: ImportSource;
+	conversations: ImportedConversation[];
+	// Entries in the file that could not be read at all; they are reported alongside the import results.
+	failures: ImportResult[];
+}
+
+// Each message is a separate insert, so one request only creates this many chats; importing the file again continues.
+export const MAX_IMPORT_CONVERSATIONS = 100;
+
+function toRecord(value: unknown): Record<string, unknown> | null {
+	return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+function toIsoFromEpochSeconds(value: unknown): string | null {
+	if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+		return null;
+	}
+	return new Date(value * 1000).toISOString();
+}
+
+function toIsoFromString(value: unknown): string | null {
+	if (typeof value !== 'string') {
+		return null;
+	}
+	const parsed = Date.parse(value);
+	return Number.isNaN(parsed) ? null : new Date(parsed).toISOString();
+}
+
+function failure(title: string, importId: string | null, error: string): ImportResult {
+	return { importId, title, status: 'failed', threadId: null, messageCount: 0, error };
+}
+
+function readChatGptAttachments(metadata: Record<string, unknown> | null): string[] {
+	if (!Array.isArray(metadata?.attachments)) {
+		return [];
+	}
+	return metadata.attachments
+		.map((attachment) => toRecord(attachment)?.name)
+		.filter((name): name is string => typeof name === 'string' && name.trim().length > 0)
+		.map((name) => name.trim());
+}
+
+// Hidden system context, tool calls and tool output are left out; only what the user saw as the conversation is kept.
+function parseChatGptMessage(value: unknown): ImportedMessage | null {
+	const message = toRecord(value);
+	const role = toRecord(message?.author)?.role;
+	if (!message || (role !== 'user' && role !== 'assistant')) {
+		return null;
+	}
+
+	const metadata = toRecord(message.metadata);
+	if (metadata?.is_visually_hidden_from_conversation === true) {
+		return null;
+	}
+	if (role === 'assistant' && typeof message.recipient === 'string' && message.recipient !== 'all') {
+		return null;
+	}
+
+	const content = toRecord(message.content);
+	if (content?.content_type !== 'text' && content?.content_type !== 'multimodal_text') {
+		return null;
+	}
+
+	const text = (Array.isArray(content.parts) ? content.parts : [])
+		.filter((part): part is string => typeof part === 'string')
+		.join('\n')
+		.trim();
+	const attachments = readChatGptAttachments(metadata);
+	if (!text && attachments.length === 0) {
+		return null;
+	}
+
+	const model = typeof metadata?.model_slug === 'string' ? metadata.model_slug : null;
+	const finishType = toRecord(metadata?.finish_details)?.type;
+	return {
+		role,
+		content: text,
+		attachments,
+		reasoning: null,
+		stopped: false,
+		parts: [],
+		generation:
+			role === 'assistant' && model
+				? {
+						provider: 'openai',
+						model,
+						usedFallback: false,
+						promptTokens: null,
+						completionTokens: null,
+						latencyMs: null,
+						finishReason: typeof finishType === 'string' ? finishType : null
+					}
+				: null,
+		createdAt: toIsoFromEpochSeconds(message.create_time)
+	};
+}
+
+// The main branch is the one ending at current_node, which is what ChatGPT showed when the export was made.
+function flattenChatGptMapping(mapping: Record<string, unknown>, currentNode: unknown): ImportedMessage[] {
+	const parentOf = (nodeId: string): string | null => {
+		const parent = toRecord(mapping[nodeId])?.parent;
+		return typeof parent === 'string' && parent in mapping ? parent : null;
+	};
+
+	let leafId = typeof currentNode === 'string' && currentNode in mapping ? currentNode : null;
+	if (!leafId) {
+		leafId = Object.keys(mapping).find((nodeId) => parentOf(nodeId) === null) ?? null;
+		const visited = new Set<string>();
+		while (leafId && !visited.has(leafId)) {
+			visited.add(leafId);
+			const children = toRecord(mapping[leafId])?.children;
+			const lastChild = Array.isArray(children) ? children[children.length - 1] : undefined;
+			if (typeof lastChild !== 'string' || !(lastChild in mapping)) {
+				break;
+			}
+			leafId = lastChild;
+		}
+	}
+
+	const messages: ImportedMessage[] = [];
+	const visited = new Set<string>();
+	for (let nodeId = leafId; nodeId && !visited.has(nodeId); nodeId = parentOf(nodeId)) {
+		visited.add(nodeId);
+		const message = parseChatGptMessage(toRecord(mapping[nodeId])?.message);
+		if (message) {
+			messages.unshift(message);
+		}
+	}
+	return messages;
+}
+
+function parseChatGptConversation(value: unknown): ImportedConversation | ImportResult {
+	const conversation = toRecord(value);
+	const title = typeof conversation?.title === 'string' && conversation.title.trim() ? conversation.title : 'Imported chat';
+	const mapping = toRecord(conversation?.mapping);
+	if (!conversation || !mapping) {
+		return failure(title, null, 'Conversation has no messages.');
+	}
+
+	const importId =
+		typeof conversation.conversation_id === 'string'
+			? conversation.conversation_id
+			: typeof conversation.id === 'string'
+				? conversation.id
+				: null;
+	if (!importId) {
+		return failure(title, null, 'Conversation has no id.');
+	}
+
+	return {
+		source: 'chatgpt',
+		importId,
+		title,
+		createdAt: toIsoFromEpochSeconds(conversation.create_time),
+		updatedAt: toIsoFromEpochSeconds(conversation.update_time),
+		messages: flattenChatGptMapping(mapping, conversation.current_node),
+		organization: null
+	};
+}
+
+function parseRavenMessage(value: unknown): ImportedMessage | null {
+	const message = toRecord(value);
+	if (!message || (message.role !== 'user' && message.role !== 'assistant') || typeof message.content !== 'string') {
+		return null;
+	}
+
+	return {
+		role: message.role,
+		content: message.content,
+		attachments: Array.isArray(message.attachments)
+			? message.attachments.filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+			: [],
+		reasoning: typeof message.reasoning === 'string' && message.reasoning ? message.reasoning : null,
+		stopped: message.stopped === true,
+		parts: normalizeParts(message.parts),
+		generation: parseGeneration(message.generation),
+		createdAt: toIsoFromString(message.createdAt)
+	};
+}
+
+function parseRavenExport(value: unknown): ImportedConversation | ImportResult {
+	const payload = toRecord(value);
+	const thread = toRecord(payload?.thread);
+	const title = typeof thread?.title === 'string' && thread.title.trim() ? thread.title : 'Imported chat';
+	if (!payload || !thread || typeof thread.id !== 'string') {
+		return failure(title, null, 'Export has no chat id.');
+	}
+	if (typeof payload.version !== 'number' || payload.version > RAVEN_EXPORT_VERSION) {
+		return failure(title, thread.id, 'Export was made by a newer version of Raven.');
+	}
+
+	// Exports contain the active branch in order, so each message follows the one before it.
+	const messages = (Array.isArray(payload.messages) ? payload.messages : [])
+		.map(parseRavenMessage)
+		.filter((message): message is ImportedMessage => message !== null);
+	const tags = normalizeThreadTags(thread.tags) ?? [];
+	const organization: ThreadUpdate = {};
+	if (tags.length > 0) {
+		organization.tags = tags;
+	}
+	if (thread.pinned === true) {
+		organization.pinned = true;
+	}
+	if (typeof thread.archivedAt === 'string') {
+		organization.archived = true;
+	}
+
+	return {
+		source: 'raven',
+		importId: thread.id,
+		title,
+		createdAt: toIsoFromString(thread.createdAt),
+		updatedAt: toIsoFromString(thread.updatedAt),
+		messages,
+		organization: Object.keys(organization).length > 0 ? organization : null
+	};
+}
+
+function isRavenExport(value: unknown): boolean {
+	return toRecord(value)?.format === RAVEN_EXPORT_FORMAT;
+}
+
+function isChatGptConversation(value: unknown): boolean {
+	return toRecord(toRecord(value)?.mapping) !== null;
+}
+
+// Accepts a ChatGPT conversations.json (or a single conversation from it) and one or more Raven JSON exports.
+export function parseImportFile(payload: unknown): ParsedImport | null {
+	const items = Array.isArray(payload) ? payload : [payload];
+	const first = items.find((item) => toRecord(item) !== null);
+
+	let source: ImportSource;
+	let parse: (value: unknown) => ImportedConversation | ImportResult;
+	if (isRavenExport(first)) {
+		source = 'raven';
+		parse = parseRavenExport;
+	} else if (isChatGptConversation(first)) {
+		source = 'chatgpt';
+		parse = parseChatGptConversation;
+	} else {
+		return null;
+	}
+
+	const parsed: ParsedImport = { source, conversations: [], failures: [] };
+	for (const item of items) {
+		const result = parse(item);
+		if ('status' in result) {
+			parsed.failures.push(result);
+		} else {
+			parsed.conversations.push(result);
+		}
+	}
+	return parsed;
+}
+
+// A Raven export being imported back into the account it came from still has its original thread.
+async function findExistingThreadId(
+	userId: string,
+	conversation: ImportedConversation,
+	imported: Map<string, string>
+): Promise<string | null> {
+	const existing = imported.get(conversation.importId);
+	if (existing) {
+		return existing;
+	}
+	if (conversation.source === 'raven' && isUuid(conversation.importId)) {
+		return (await getThreadForUser(userId, conversation.importId))?.id ?? null;
+	}
+	return null;
+}
+
+async function importConversation(userId: string, conversation: ImportedConversation): Promise<ImportResult> {
+	const createdAt = conversation.createdAt ?? conversation.messages[0]?.createdAt ?? undefined;
+	let threadId: string | null = null;
+
+	try {
+		const thread = await createThreadForUser(userId, conversation.title, {
+			createdAt,
+			updatedAt: conversation.updatedAt ?? undefined,
+			importSource: conversation.source,
+			importId: conversation.importId
+		});
+		threadId = thread.id;
+
+		let parentId: number | null = null;
+		let lastCreatedAt = createdAt;
+		for (const message of conversation.messages) {
+			lastCreatedAt = message.createdAt ?? lastCreatedAt;
+			const record = await addMessageToThread(userId, thread.id, message.role, message.content, message.attachments, {
+				parentId,
+				reasoning: message.reasoning,
+				stopped: message.stopped,
+				parts: message.parts,
+				generation: message.generation,
+				createdAt: lastCreatedAt
+			});
+			parentId = record.id;
+		}
+
+		await touchThread(thread.id, parentId ?? undefined, conversation.updatedAt ?? lastCreatedAt);
+		if (conversation.organization) {
+			await updateThreadForUser(userId, thread.id, conversation.organization);
+		}
+
+		return {
+			importId: conversation.importId,
+			title: thread.title,
+			status: 'imported',
+			threadId: thread.id,
+			messageCount: conversation.messages.length,
+			error: null
+		};
+	} catch (error) {
+		console.error(error);
+		// A half-written chat would be skipped as a duplicate next time, so it is removed to let a retry import it whole.
+		if (threadId) {
+			await deleteThreadForUser(userId, threadId).catch((cleanupError) => {
+				console.error(cleanupError);
+			});
+		}
+		return failure(
+			conversation.title,
+			conversation.importId,
+			error instanceof Error ? error.message : 'Failed to import conversation.'
+		);
+	}
+}
+
+export async function importConversations(userId: string, parsed: ParsedImport): Promise<ImportResult[]> {
+	const imported = await findImportedThreads(
+		userId,
+		parsed.source,
+		parsed.conversations.map((conversation) => conversation.importId)
+	);
+
+	const results: ImportResult[] = [...parsed.failures];
+	const seen = new Set<string>();
+	let created = 0;
+
+	for (const conversation of parsed.conversations) {
+		const repeated = seen.has(conversation.importId);
+		seen.add(conversation.importId);
+		const existingId = repeated ? null : await findExistingThreadId(userId, conversation, imported);
+		if (repeated || existingId) {
+			results.push({
+				importId: conversation.importId,
+				title: conversation.title,
+				status: 'skipped',
+				threadId: existingId,
+				messageCount: 0,
+				error: null
+			});
+			continue;
+		}
+
+		if (conversation.messages.length === 0) {
+			results.push(failure(conversation.title, conversation.importId, 'Conversation has no messages to import.'));
+			continue;
+		}
+		if (created >= MAX_IMPORT_CONVERSATIONS) {
+			results.push(
+				failure(
+					conversation.title,
+					conversation.importId,
+					`Only ${MAX_IMPORT_CONVERSATIONS} chats are imported at a time. Import the file again to continue.`
+				)
+			);
+			continue;
+		}
+
+		created += 1;
+		results.push(await importConversation(userId, conversation));
+	}
+
+	return results;
+}
@@ -1,329 +1,479 @@
 import { env } from '$env/dynamic/private';
+import { anthropicProvider } from './providers/anthropic';
+import { koboldCppProvider } from './providers/koboldcpp';
+import {
+	createOpenAICompatibleProvider,
+	parseOpenAICompatibleDefinitions
+} from './providers/openai-compatible';
+import { openRouterProvider } from './providers/openrouter';
+import { createThinkTagSplitter, ProviderRequestError, splitThinking } from './providers/shared';
+import type {
+	ChatCompletionDeltaHandler,
+	ChatCompletionMessage,
+	ChatProviderAdapter,
+	ChatProviderCapabilities,
+	ChatProviderId,
+	ChatTool,
+	ChatToolCall,
+	ChatToolResult,
+	ProviderCompletion,
+	ProviderCompletionRequest,
+	ProviderConfig,
+	ProviderConfigField,
+	ProviderUsage
+} from './providers/types';
+
+export { getSystemPrompt } from './providers/shared';
+export type {
+	ChatCompletionDeltaHandler,
+	ChatCompletionMessage,
+	ChatCompletionRole,
+	ChatProviderAdapter,
+	ChatProviderCapabilities,
+	ChatTool,
+	ChatToolResult,
+	ProviderUsage
+} from './providers/types';
+
+export type ChatProvider = ChatProviderId;
+
+export interface ChatCompletionOptions {
+	// A catalog-resolved upstream model. Setting it pins requestedProvider even without ALLOW_PROVIDER_OVERRIDE.
+	model?: string;
+	// Pins requestedProvider for internal follow-up calls (titles, summaries) that must run on the provider that answered.
+	pinProvider?: boolean;
+	onDelta?: ChatCompletionDeltaHandler;
+	onReasoningDelta?: ChatCompletionDeltaHandler;
+	// Offered only to providers that support tool calling; calls are executed here and fed back.
+	tools?: ChatTool[];
+	onToolResult?: (result: ChatToolResult) => void;
+	signal?: AbortSignal;
+}
 
-export type ChatProvider = 'openrouter' | 'koboldcpp';
-export type ChatCompletionRole = 'system' | 'user' | 'assistant';
-
-export interface ChatCompletionMessage {
-	role: ChatCompletionRole;
-	content: string;
+export interface ChatProviderSummary {
+	id: ChatProvider;
+	label: string;
+	capabilities: ChatProviderCapabilities;
 }
 
 interface ProviderResult {
 	provider: ChatProvider;
 	reply: string;
+	reasoning: string;
+	model: string | null;
+	usedFallback: boolean;
+	toolResults: ChatToolResult[];
+	usage: ProviderUsage | null;
+	finishReason: string | null;
+	latencyMs: number;
 }
 
-const DEFAULT_SYSTEM_PROMPT =
-	'You are a helpful assistant. Give concise, useful answers. Do not output chain-of-thought, internal reasoning, or tags like <think>...</think>. Provide only the final answer.';
-
-function getSystemPrompt(): string {
-	const customPrompt = typeof env.CHAT_SYSTEM_PROMPT === 'string' ? env.CHAT_SYSTEM_PROMPT.trim() : '';
-	return customPrompt.length > 0 ? customPrompt : DEFAULT_SYSTEM_PROMPT;
+interface RetryPolicy {
+	maxRetries: number;
+	baseDelayMs: number;
+	maxDelayMs: number;
 }
 
-function stripThinkingArtifacts(text: string): string {
-	const original = text.trim();
-	if (!original) {
-		return '';
-	}
-
-	const cleaned = original
-		.replace(/<think\b[^>]*>[\s\S]*?<\/think>/gi, '')
-		.replace(/<thinking\b[^>]*>[\s\S]*?<\/thinking>/gi, '')
-		.replace(/<\/?think\b[^>]*>/gi, '')
-		.replace(/<\/?thinking\b[^>]*>/gi, '')
-		.replace(/\n{3,}/g, '\n\n')
-		.trim();
-
-	return cleaned.length > 0 ? cleaned : original;
+interface CircuitState {
+	consecutiveFailures: number;
+	openUntil: number;
+	trialInFlight: boolean;
 }
 
-function ensureTextResponse(payload: unknown): string {
-	if (!payload || typeof payload !== 'object') {
-		return '';
-	}
+const builtInProviders: ChatProviderAdapter[] = [openRouterProvider, koboldCppProvider, anthropicProvider];
+const FALLBACK_DEFAULT_PROVIDER = koboldCppProvider.id;
+const circuits = new Map<ChatProvider, CircuitState>();
+let registryCache: { declaration: string; providers: Map<ChatProvider, ChatProviderAdapter> } | null = null;
 
-	const record = payload as Record<string, unknown>;
-	const choices = record.choices;
-	if (!Array.isArray(choices) || choices.length === 0) {
-		return '';
+function getRegisteredProviders(): Map<ChatProvider, ChatProviderAdapter> {
+	const declaration = env.OPENAI_COMPATIBLE_PROVIDERS ?? '';
+	if (registryCache && registryCache.declaration === declaration) {
+		return registryCache.providers;
 	}
 
-	const first = choices[0];
-	if (!first || typeof first !== 'object') {
-		return '';
+	const registered = new Map(builtInProviders.map((adapter) => [adapter.id, adapter]));
+	for (const definition of parseOpenAICompatibleDefinitions(declaration)) {
+		if (registered.has(definition.id)) {
+			console.error(`Skipping OpenAI-compatible provider "${definition.id}": id is already registered.`);
+			continue;
+		}
+		registered.set(definition.id, createOpenAICompatibleProvider(definition));
 	}
 
-	const firstRecord = first as Record<string, unknown>;
-	const message = firstRecord.message;
-	if (!message || typeof message !== 'object') {
-		return '';
-	}
+	registryCache = { declaration, providers: registered };
+	return registered;
+}
 
-	const content = (message as Record<string, unknown>).content;
-	if (typeof content === 'string') {
-		return stripThinkingArtifacts(content);
+function readEnabledProviderIds(): Set<ChatProvider> | null {
+	const rawValue = typeof env.LLM_PROVIDERS === 'string' ? env.LLM_PROVIDERS.trim() : '';
+	if (!rawValue) {
+		return null;
 	}
 
-	if (!Array.isArray(content)) {
-		return '';
-	}
+	const ids = rawValue
+		.split(',')
+		.map((value) => value.trim().toLowerCase())
+		.filter((value) => value.length > 0);
+	return ids.length > 0 ? new Set(ids) : null;
+}
 
-	const merged = content
-		.map((part) => {
-			if (!part || typeof part !== 'object') {
-				return '';
-			}
-			const text = (part as Record<string, unknown>).text;
-			return typeof text === 'string' ? text : '';
-		})
-		.join('')
-		.trim();
+function readConfigValue(field: ProviderConfigField): string | undefined {
+	const envValue = field.env ? env[field.env] : undefined;
+	const trimmed = typeof envValue === 'string' ? envValue.trim() : '';
+	return trimmed.length > 0 ? trimmed : field.defaultValue;
+}
 
-	return stripThinkingArtifacts(merged);
+function hasRequiredConfig(adapter: ChatProviderAdapter): boolean {
+	return adapter.configSchema.every((field) => !field.required || Boolean(readConfigValue(field)));
 }
 
-function normalizeOptionalText(value: unknown): string | null {
-	if (typeof value !== 'string') {
-		return null;
+// An adapter whose required config (such as its API key) is missing is left out, so it is never offered in a picker.
+function getEnabledProviders(): Map<ChatProvider, ChatProviderAdapter> {
+	const enabledIds = readEnabledProviderIds();
+	const enabled = new Map<ChatProvider, ChatProviderAdapter>();
+	for (const [id, adapter] of getRegisteredProviders()) {
+		if ((!enabledIds || enabledIds.has(id)) && hasRequiredConfig(adapter)) {
+			enabled.set(id, adapter);
+		}
 	}
-
-	const trimmed = value.trim();
-	return trimmed.length > 0 ? trimmed : null;
+	return enabled;
 }
 
-function toErrorMessage(error: unknown): string {
-	return error instanceof Error ? error.message : 'Unknown error.';
+function resolveProviderConfig(adapter: ChatProviderAdapter): ProviderConfig {
+	const config: ProviderConfig = {};
+	for (const field of adapter.configSchema) {
+		const value = readConfigValue(field);
+		if (field.required && !value) {
+			throw new Error(`Missing ${field.env ?? `${adapter.id}.${field.key}`}.`);
+		}
+		config[field.key] = value;
+	}
+	return config;
 }
 
-function parseJsonSafe(value: string): unknown {
-	try {
-		return JSON.parse(value);
-	} catch {
-		return null;
+function getDefaultProvider(enabled: Map<ChatProvider, ChatProviderAdapter>): ChatProviderAdapter {
+	const configured = typeof env.LLM_PROVIDER === 'string' ? env.LLM_PROVIDER.trim().toLowerCase() : '';
+	const adapter =
+		enabled.get(configured) ?? enabled.get(FALLBACK_DEFAULT_PROVIDER) ?? enabled.values().next().value;
+	if (!adapter) {
+		throw new Error('No chat providers are enabled. Check LLM_PROVIDERS and the providers\' API keys.');
 	}
+	return adapter;
 }
 
-function readOpenRouterError(payload: unknown): string | null {
-	if (!payload || typeof payload !== 'object') {
+export function isProviderEnabled(providerId: string): boolean {
+	return getEnabledProviders().has(providerId);
+}
+
+export function getProviderDefaultModel(providerId: string): string | null {
+	const adapter = getEnabledProviders().get(providerId);
+	if (!adapter) {
 		return null;
 	}
 
-	const record = payload as Record<string, unknown>;
-	const errorNode = record.error;
-	if (!errorNode || typeof errorNode !== 'object') {
+	try {
+		return resolveProviderConfig(adapter).model ?? null;
+	} catch {
 		return null;
 	}
+}
 
-	const errorRecord = errorNode as Record<string, unknown>;
-	const message = normalizeOptionalText(errorRecord.message) ?? 'Provider returned an error.';
-	const code =
-		typeof errorRecord.code === 'number' || typeof errorRecord.code === 'string'
-			? String(errorRecord.code)
-			: null;
-
-	let provider: string | null = null;
-	let raw: string | null = null;
-	const metadata = errorRecord.metadata;
-	if (metadata && typeof metadata === 'object') {
-		const metadataRecord = metadata as Record<string, unknown>;
-		provider = normalizeOptionalText(metadataRecord.provider_name);
-		raw = normalizeOptionalText(metadataRecord.raw);
-	}
+export function listEnabledProviders(): ChatProviderSummary[] {
+	return Array.from(getEnabledProviders().values()).map((adapter) => ({
+		id: adapter.id,
+		label: adapter.label,
+		capabilities: { ...adapter.capabilities }
+	}));
+}
 
-	const details: string[] = [message];
-	if (code) {
-		details.push(`code ${code}`);
-	}
-	if (provider) {
-		details.push(`provider ${provider}`);
-	}
-	if (raw) {
-		details.push(raw);
+function readIntegerEnv(value: string | undefined, fallback: number, min: number, max: number): number {
+	const trimmed = typeof value === 'string' ? value.trim() : '';
+	const parsed = Number(trimmed);
+	if (!trimmed || !Number.isFinite(parsed)) {
+		return fallback;
 	}
+	return Math.min(Math.max(Math.floor(parsed), min), max);
+}
 
-	return details.join(' | ');
+function getRetryPolicy(): RetryPolicy {
+	return {
+		maxRetries: readIntegerEnv(env.LLM_MAX_RETRIES, 2, 0, 5),
+		baseDelayMs: readIntegerEnv(env.LLM_RETRY_BASE_DELAY_MS, 500, 50, 10_000),
+		maxDelayMs: readIntegerEnv(env.LLM_RETRY_MAX_DELAY_MS, 10_000, 100, 60_000)
+	};
 }
 
-function getOpenRouterTimeoutMs(): number {
-	const rawValue = typeof env.OPENROUTER_TIMEOUT_MS === 'string' ? env.OPENROUTER_TIMEOUT_MS.trim() : '';
-	if (!rawValue) {
-		return 60_000;
-	}
+function isRetryableError(error: unknown): error is ProviderRequestError {
+	return error instanceof ProviderRequestError && error.retryable;
+}
 
-	const parsed = Number(rawValue);
-	if (!Number.isFinite(parsed)) {
-		return 60_000;
+// Full jitter keeps concurrent requests from retrying in lockstep; Retry-After wins when the server sends it.
+function getRetryDelayMs(error: ProviderRequestError, attempt: number, policy: RetryPolicy): number | null {
+	if (error.retryAfterMs !== null) {
+		return error.retryAfterMs <= policy.maxDelayMs ? error.retryAfterMs : null;
 	}
 
-	return Math.min(Math.max(Math.floor(parsed), 1_000), 300_000);
+	const ceiling = Math.min(policy.baseDelayMs * 2 ** attempt, policy.maxDelayMs);
+	return Math.round(Math.random() * ceiling);
 }
 
-function normalizeProvider(value: string | undefined): ChatProvider {
-	if (value === 'openrouter') {
-		return 'openrouter';
-	}
-	return 'koboldcpp';
+function wait(delayMs: number, signal: AbortSignal | undefined): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(new Error('Chat request was cancelled.'));
+			return;
+		}
+
+		const onAbort = () => {
+			clearTimeout(handle);
+			reject(new Error('Chat request was cancelled.'));
+		};
+		const handle = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, delayMs);
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
 }
 
-function withNoTrailingSlash(url: string): string {
-	return url.endsWith('/') ? url.slice(0, -1) : url;
+// Once the cooldown has passed, one request gets the provider as a trial; everyone else keeps skipping it until the
+// trial succeeds (closing the circuit) or fails (re-opening it).
+function acquireProvider(providerId: ChatProvider): boolean {
+	const circuit = circuits.get(providerId);
+	if (!circuit || circuit.openUntil === 0) {
+		return true;
+	}
+	if (circuit.openUntil > Date.now() || circuit.trialInFlight) {
+		return false;
+	}
+	circuit.trialInFlight = true;
+	return true;
 }
 
-function sanitizeMessages(messages: ChatCompletionMessage[]): ChatCompletionMessage[] {
-	const sanitized: ChatCompletionMessage[] = messages
-		.map((message): ChatCompletionMessage => ({
-			role: message.role,
-			content: message.content.trim()
-		}))
-		.filter((message) => message.content.length > 0);
-
-	const baseMessages: ChatCompletionMessage[] =
-		sanitized.length > 0 ? sanitized : [{ role: 'user', content: 'Hello' }];
-	if (baseMessages.some((message) => message.role === 'system')) {
-		return baseMessages;
+// Timeouts, network errors, 429 and 5xx (everything retryable) plus 401, 403 and 404 mean the provider is down or
+// misconfigured, e.g. a bad key. Cancelled requests and other 4xx answers are about the request and do not count.
+function isProviderFailure(error: unknown, signal: AbortSignal | undefined): boolean {
+	if (signal?.aborted || !(error instanceof ProviderRequestError)) {
+		return false;
 	}
+	return error.retryable || error.status === 401 || error.status === 403 || error.status === 404;
+}
 
-	return [{ role: 'system', content: getSystemPrompt() }, ...baseMessages];
+function recordProviderSuccess(providerId: ChatProvider) {
+	circuits.delete(providerId);
 }
 
-async function callOpenRouter(messages: ChatCompletionMessage[], reasoningEnabled: boolean): Promise<string> {
-	const apiKey = env.OPENROUTER_API_KEY;
-	if (!apiKey) {
-		throw new Error('Missing OPENROUTER_API_KEY.');
+function recordProviderFailure(providerId: ChatProvider) {
+	const threshold = readIntegerEnv(env.LLM_CIRCUIT_FAILURE_THRESHOLD, 3, 1, 100);
+	const cooldownMs = readIntegerEnv(env.LLM_CIRCUIT_COOLDOWN_MS, 30_000, 1_000, 3_600_000);
+	const circuit = circuits.get(providerId) ?? { consecutiveFailures: 0, openUntil: 0, trialInFlight: false };
+	circuit.consecutiveFailures += 1;
+	circuit.trialInFlight = false;
+	if (circuit.consecutiveFailures >= threshold) {
+		circuit.openUntil = Date.now() + cooldownMs;
+		console.error(`Chat provider "${providerId}" failed ${circuit.consecutiveFailures} times; pausing it for ${cooldownMs}ms.`);
 	}
+	circuits.set(providerId, circuit);
+}
 
-	const model = env.OPENROUTER_MODEL || 'deepseek/deepseek-chat';
-	const fallbackModel =
-		typeof env.OPENROUTER_FALLBACK_MODEL === 'string' ? env.OPENROUTER_FALLBACK_MODEL.trim() : '';
-	const siteUrl = env.OPENROUTER_SITE_URL || 'http://localhost:5173';
-	const appName = env.OPENROUTER_APP_NAME || 'Raven';
-	const timeoutMs = getOpenRouterTimeoutMs();
+function releaseProviderTrial(providerId: ChatProvider) {
+	const circuit = circuits.get(providerId);
+	if (circuit) {
+		circuit.trialInFlight = false;
+	}
+}
 
-	const requestOnce = async (modelId: string): Promise<string> => {
-		const controller = new AbortController();
-		const timeoutHandle = setTimeout(() => {
-			controller.abort();
-		}, timeoutMs);
+function getFallbackProvider(
+	enabled: Map<ChatProvider, ChatProviderAdapter>,
+	primary: ChatProviderAdapter
+): ChatProviderAdapter | null {
+	const configured = typeof env.LLM_FALLBACK_PROVIDER === 'string' ? env.LLM_FALLBACK_PROVIDER.trim().toLowerCase() : '';
+	const fallback = configured ? enabled.get(configured) : undefined;
+	return fallback && fallback.id !== primary.id ? fallback : null;
+}
 
-		let response: Response;
+async function completeWithRetries(
+	adapter: ChatProviderAdapter,
+	request: ProviderCompletionRequest,
+	policy: RetryPolicy,
+	hasStreamed: () => boolean
+): Promise<ProviderCompletion> {
+	const config = resolveProviderConfig(adapter);
+	for (let attempt = 0; ; attempt += 1) {
 		try {
-			const requestBody: Record<string, unknown> = {
-				model: modelId,
-				messages: sanitizeMessages(messages)
-			};
-			if (reasoningEnabled) {
-				requestBody.reasoning = { enabled: true };
-			}
-
-			response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-				method: 'POST',
-				signal: controller.signal,
-				headers: {
-					Authorization: `Bearer ${apiKey}`,
-					'Content-Type': 'application/json',
-					'HTTP-Referer': siteUrl,
-					'X-Title': appName
-				},
-				body: JSON.stringify(requestBody)
-			});
+			return await adapter.complete(request, config);
 		} catch (error) {
-			if (error instanceof Error && error.name === 'AbortError') {
-				throw new Error(`OpenRouter timed out after ${timeoutMs}ms for model "${modelId}".`);
+			// Retrying after deltas reached the caller would duplicate output.
+			if (request.signal?.aborted || hasStreamed() || attempt >= policy.maxRetries || !isRetryableError(error)) {
+				throw error;
 			}
-			throw new Error(`OpenRouter request failed for model "${modelId}": ${toErrorMessage(error)}`);
-		} finally {
-			clearTimeout(timeoutHandle);
-		}
-
-		const rawBody = await response.text();
-		const payload = rawBody ? parseJsonSafe(rawBody) : null;
-		const providerError = readOpenRouterError(payload);
 
-		if (!response.ok) {
-			if (providerError) {
-				throw new Error(`OpenRouter error (${response.status}) for model "${modelId}": ${providerError}`);
+			const delayMs = getRetryDelayMs(error, attempt, policy);
+			if (delayMs === null) {
+				throw error;
 			}
-			const details = rawBody.trim() || 'No response body.';
-			throw new Error(`OpenRouter error (${response.status}) for model "${modelId}": ${details}`);
-		}
-
-		if (providerError) {
-			throw new Error(`OpenRouter provider error for model "${modelId}": ${providerError}`);
-		}
-
-		const reply = ensureTextResponse(payload);
-		if (!reply) {
-			throw new Error(`OpenRouter returned an empty completion for model "${modelId}".`);
-		}
-
-		return reply;
-	};
-
-	try {
-		return await requestOnce(model);
-	} catch (primaryError) {
-		if (!fallbackModel || fallbackModel === model) {
-			throw primaryError;
-		}
-
-		try {
-			return await requestOnce(fallbackModel);
-		} catch (fallbackError) {
-			throw new Error(
-				`OpenRouter primary model "${model}" failed: ${toErrorMessage(primaryError)} Fallback model "${fallbackModel}" failed: ${toErrorMessage(fallbackError)}`
-			);
+			await wait(delayMs, request.signal);
 		}
 	}
 }
 
-async function callKoboldCpp(messages: ChatCompletionMessage[]): Promise<string> {
-	const baseUrl = withNoTrailingSlash(env.KOBOLDCPP_URL || 'http://127.0.0.1:5001');
-	const model = env.KOBOLDCPP_MODEL || 'koboldcpp';
-
-	const response = await fetch(`${baseUrl}/v1/chat/completions`, {
-		method: 'POST',
-		headers: {
-			'Content-Type': 'application/json'
-		},
-		body: JSON.stringify({
-			model,
-			messages: sanitizeMessages(messages)
-		})
-	});
+const MAX_TOOL_ROUNDS = 4;
+const MAX_TOOL_OUTPUT_CHARS = 8_000;
 
-	if (!response.ok) {
-		const details = await response.text();
-		throw new Error(`KoboldCpp error (${response.status}): ${details}`);
+async function executeToolCall(tools: ChatTool[], call: ChatToolCall): Promise<ChatToolResult> {
+	const result = { callId: call.id, name: call.name, arguments: call.arguments };
+	const tool = tools.find((candidate) => candidate.name === call.name);
+	if (!tool) {
+		return { ...result, output: `Unknown tool "${call.name}".`, isError: true };
 	}
 
-	const payload = await response.json();
-	const reply = ensureTextResponse(payload);
-	if (!reply) {
-		throw new Error('KoboldCpp returned an empty completion.');
+	try {
+		const parsed: unknown = call.arguments.trim() ? JSON.parse(call.arguments) : {};
+		if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+			throw new Error('Tool arguments must be a JSON object.');
+		}
+		const output = await tool.execute(parsed as Record<string, unknown>);
+		return { ...result, output: output.slice(0, MAX_TOOL_OUTPUT_CHARS), isError: false };
+	} catch (error) {
+		return { ...result, output: error instanceof Error ? error.message : 'Tool failed.', isError: true };
 	}
-
-	return reply;
 }
 
 export async function completeChat(
 	messages: ChatCompletionMessage[],
 	requestedProvider?: ChatProvider,
-	reasoningEnabled = false
+	reasoningEnabled = false,
+	options: ChatCompletionOptions = {}
 ): Promise<ProviderResult> {
-	const defaultProvider = normalizeProvider(env.LLM_PROVIDER);
+	const enabled = getEnabledProviders();
 	const allowProviderOverride = env.ALLOW_PROVIDER_OVERRIDE === 'true';
-	const provider = allowProviderOverride && requestedProvider ? requestedProvider : defaultProvider;
+	const requestedAdapter = requestedProvider ? enabled.get(requestedProvider) : undefined;
+	const { model, pinProvider, onDelta, onReasoningDelta, onToolResult, signal } = options;
+	const startedAt = Date.now();
+	if ((model || pinProvider) && !requestedAdapter) {
+		throw new Error(`Chat provider "${requestedProvider ?? ''}" is not enabled.`);
+	}
+
+	const primary =
+		(allowProviderOverride || model || pinProvider) && requestedAdapter ? requestedAdapter : getDefaultProvider(enabled);
+	const fallback = getFallbackProvider(enabled, primary);
+	const policy = getRetryPolicy();
+	let streamed = false;
+	let lastError: unknown = null;
+
+	for (const adapter of fallback ? [primary, fallback] : [primary]) {
+		if (!acquireProvider(adapter.id)) {
+			lastError = new Error(`Chat provider "${adapter.id}" is temporarily unavailable after repeated failures.`);
+			continue;
+		}
+
+		const emitContent = (delta: string) => {
+			streamed = true;
+			onDelta?.(delta);
+		};
+		const emitReasoning = (delta: string) => {
+			streamed = true;
+			onReasoningDelta?.(delta);
+		};
+		// Inline <think> blocks are split out before deltas reach the caller.
+		const splitter = onDelta ? createThinkTagSplitter(emitContent, emitReasoning) : null;
+		const request: ProviderCompletionRequest = {
+			messages,
+			reasoningEnabled: reasoningEnabled && adapter.capabilities.reasoning,
+			// A catalog model belongs to the primary provider; the fallback uses its own default.
+			model: adapter === primary ? model : undefined,
+			signal
+		};
+		if (splitter && adapter.capabilities.streaming) {
+			request.onDelta = (delta) => splitter.push(delta);
+			request.onReasoningDelta = emitReasoning;
+		}
+
+		const tools = adapter.capabilities.tools ? (options.tools ?? []) : [];
+		const definitions = tools.map(({ name, description, parameters }) => ({ name, description, parameters }));
+		const conversation = [...messages];
+		const toolResults: ChatToolResult[] = [];
+		const reasoningParts: string[] = [];
+		const usage: ProviderUsage = { promptTokens: 0, completionTokens: 0 };
+		let reportedUsage = false;
+		let completion: ProviderCompletion;
+		try {
+			for (let round = 0; ; round += 1) {
+				// The last round withholds the tools so the model has to answer with what it has.
+				const offerTools = definitions.length > 0 && round < MAX_TOOL_ROUNDS;
+				completion = await completeWithRetries(
+					adapter,
+					{ ...request, messages: conversation, tools: offerTools ? definitions : undefined },
+					policy,
+					() => streamed
+				);
+				if (completion.usage) {
+					// Every tool round re-sends the conversation, so usage adds up across rounds.
+					usage.promptTokens += completion.usage.promptTokens;
+					usage.completionTokens += completion.usage.completionTokens;
+					if (completion.usage.costUsd !== undefined) {
+						usage.costUsd = (usage.costUsd ?? 0) + completion.usage.costUsd;
+					}
+					reportedUsage = true;
+				}
+				if (completion.reasoning?.trim()) {
+					reasoningParts.push(completion.reasoning.trim());
+				}
+				if (splitter && !adapter.capabilities.streaming) {
+					splitter.push(completion.reply);
+				}
+				if (!offerTools || !completion.toolCalls?.length) {
+					break;
+				}
+
+				conversation.push({ role: 'assistant', content: completion.reply, toolCalls: completion.toolCalls });
+				for (const call of completion.toolCalls) {
+					const result = await executeToolCall(tools, call);
+					toolResults.push(result);
+					onToolResult?.(result);
+					conversation.push({ role: 'tool', content: result.output, toolCallId: call.id });
+				}
+			}
+		} catch (error) {
+			if (isProviderFailure(error, signal)) {
+				recordProviderFailure(adapter.id);
+			} else {
+				releaseProviderTrial(adapter.id);
+			}
+			// Tool results already reached the caller, so another provider cannot start over cleanly.
+			if (signal?.aborted || streamed || toolResults.length > 0) {
+				throw error;
+			}
+			if (adapter === primary && fallback) {
+				console.error(`Chat provider "${adapter.id}" failed, trying fallback "${fallback.id}".`, error);
+			}
+			lastError = error;
+			continue;
+		}
+
+		recordProviderSuccess(adapter.id);
+		if (splitter && !adapter.capabilities.streaming && reasoningParts.length > 0) {
+			emitReasoning(reasoningParts.join('\n\n'));
+		}
+		splitter?.flush();
+
+		const inline = splitThinking(completion.reply);
+		if (!inline.content) {
+			throw new Error(`${adapter.label} returned only reasoning and no answer.`);
+		}
 
-	if (provider === 'openrouter') {
 		return {
-			provider,
-			reply: await callOpenRouter(messages, reasoningEnabled)
+			provider: adapter.id,
+			reply: inline.content,
+			reasoning: [...reasoningParts, inline.reasoning].filter(Boolean).join('\n\n'),
+			model: completion.model ?? null,
+			usedFallback: adapter !== primary || completion.usedFallback === true,
+			toolResults,
+			usage: reportedUsage ? usage : null,
+			finishReason: completion.finishReason ?? null,
+			latencyMs: Date.now() - startedAt
 		};
 	}
 
-	return {
-		provider,
-		reply: await callKoboldCpp(messages)
-	};
+	throw lastError ?? new Error('No chat providers are available.');
 }
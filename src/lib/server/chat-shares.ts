@@ -0,0 +1,231 @@
+import { randomBytes } from 'node:crypto';
+import { env as privateEnv } from '$env/dynamic/private';
+import { env as publicEnv } from '$env/dynamic/public';
+import { getActivePath, getMessageTree, isUuid, type ChatThreadSummary, type StoredMessageRole } from './chats';
+
+export interface SharedMessage {
+	role: StoredMessageRole;
+	content: string;
+	attachments: string[];
+	model: string | null;
+	createdAt: string;
+}
+
+export interface ChatShare {
+	id: string;
+	slug: string;
+	threadId: string;
+	title: string;
+	messageCount: number;
+	createdAt: string;
+}
+
+export interface SharedSnapshot {
+	slug: string;
+	title: string;
+	createdAt: string;
+	messages: SharedMessage[];
+}
+
+const SHARE_COLUMNS = 'id,slug,thread_id,title,message_count,created_at';
+const MAX_SHARES = 100;
+const SLUG_BYTES = 16;
+const SLUG_PATTERN = /^[A-Za-z0-9_-]{22}$/;
+
+function getSupabaseConfig() {
+	const url = privateEnv.SUPABASE_URL || publicEnv.PUBLIC_SUPABASE_URL;
+	const serviceRoleKey = privateEnv.SUPABASE_SERVICE_ROLE_KEY;
+
+	if (!url) {
+		throw new Error('Missing SUPABASE_URL or PUBLIC_SUPABASE_URL.');
+	}
+	if (!serviceRoleKey) {
+		throw new Error('Missing SUPABASE_SERVICE_ROLE_KEY.');
+	}
+
+	return {
+		url: url.endsWith('/') ? url.slice(0, -1) : url,
+		serviceRoleKey
+	};
+}
+
+async function restRequest(pathWithQuery: string, init: RequestInit = {}) {
+	const { url, serviceRoleKey } = getSupabaseConfig();
+	const headers = new Headers(init.headers ?? {});
+	headers.set('apikey', serviceRoleKey);
+	headers.set('Authorization', `Bearer ${serviceRoleKey}`);
+	if (!headers.has('Content-Type') && init.body) {
+		headers.set('Content-Type', 'application/json');
+	}
+
+	return fetch(`${url}${pathWithQuery}`, {
+		...init,
+		headers
+	});
+}
+
+function parseShareRow(row: unknown): ChatShare | null {
+	if (!row || typeof row !== 'object') {
+		return null;
+	}
+
+	const record = row as Record<string, unknown>;
+	if (
+		typeof record.id !== 'string' ||
+		typeof record.slug !== 'string' ||
+		typeof record.thread_id !== 'string' ||
+		typeof record.title !== 'string' ||
+		typeof record.created_at !== 'string'
+	) {
+		return null;
+	}
+
+	return {
+		id: record.id,
+		slug: record.slug,
+		threadId: record.thread_id,
+		title: record.title,
+		messageCount: typeof record.message_count === 'number' ? record.message_count : 0,
+		createdAt: record.created_at
+	};
+}
+
+function parseSharedMessage(value: unknown): SharedMessage | null {
+	if (!value || typeof value !== 'object') {
+		return null;
+	}
+
+	const record = value as Record<string, unknown>;
+	if (
+		(record.role !== 'user' && record.role !== 'assistant') ||
+		typeof record.content !== 'string' ||
+		typeof record.createdAt !== 'string'
+	) {
+		return null;
+	}
+
+	return {
+		role: record.role,
+		content: record.content,
+		attachments: Array.isArray(record.attachments)
+			? record.attachments.filter((item): item is string => typeof item === 'string')
+			: [],
+		model: typeof record.model === 'string' ? record.model : null,
+		createdAt: record.createdAt
+	};
+}
+
+async function readShareRows(response: Response, action: string): Promise<ChatShare[]> {
+	if (!response.ok) {
+		const details = await response.text();
+		throw new Error(`Failed to ${action} (${response.status}): ${details}`);
+	}
+
+	const payload = (await response.json()) as unknown;
+	if (!Array.isArray(payload)) {
+		return [];
+	}
+
+	return payload.map(parseShareRow).filter((row): row is ChatShare => row !== null);
+}
+
+// 128 random bits, so links cannot be guessed or enumerated.
+function createSlug(): string {
+	return randomBytes(SLUG_BYTES).toString('base64url');
+}
+
+// The snapshot is a copy of the visible branch, so messages added to the chat later are never exposed through the link.
+// Reasoning and tool output stay private. Returns null when the chat has nothing to share yet.
+export async function createShareForThread(userId: string, thread: ChatThreadSummary): Promise<ChatShare | null> {
+	const messages: SharedMessage[] = getActivePath(await getMessageTree(userId, thread.id))
+		.filter((message) => message.content || message.attachments.length > 0)
+		.map((message) => ({
+			role: message.role,
+			content: message.content,
+			attachments: message.attachments,
+			model: message.generation?.model ?? null,
+			createdAt: message.createdAt
+		}));
+	if (messages.length === 0) {
+		return null;
+	}
+
+	const response = await restRequest(`/rest/v1/chat_shares?select=${SHARE_COLUMNS}`, {
+		method: 'POST',
+		headers: {
+			Prefer: 'return=representation'
+		},
+		body: JSON.stringify([
+			{
+				user_id: userId,
+				thread_id: thread.id,
+				slug: createSlug(),
+				title: thread.title,
+				message_count: messages.length,
+				messages
+			}
+		])
+	});
+
+	const share = (await readShareRows(response, 'create share link'))[0];
+	if (!share) {
+		throw new Error('Failed to create share link: invalid response.');
+	}
+	return share;
+}
+
+export async function listSharesForUser(userId: string, threadId?: string): Promise<ChatShare[]> {
+	if (threadId !== undefined && !isUuid(threadId)) {
+		return [];
+	}
+
+	const threadFilter = threadId ? `&thread_id=eq.${threadId}` : '';
+	const response = await restRequest(
+		`/rest/v1/chat_shares?select=${SHARE_COLUMNS}&user_id=eq.${userId}${threadFilter}&order=created_at.desc&limit=${MAX_SHARES}`
+	);
+	return readShareRows(response, 'list share links');
+}
+
+// Revoking deletes the snapshot, so the link stops working immediately.
+export async function revokeShareForUser(userId: string, shareId: string): Promise<boolean> {
+	if (!isUuid(shareId)) {
+		return false;
+	}
+
+	const response = await restRequest(`/rest/v1/chat_shares?id=eq.${shareId}&user_id=eq.${userId}&select=${SHARE_COLUMNS}`, {
+		method: 'DELETE',
+		headers: {
+			Prefer: 'return=representation'
+		}
+	});
+	return (await readShareRows(response, 'revoke share link')).length > 0;
+}
+
+export async function getSharedSnapshot(slug: string): Promise<SharedSnapshot | null> {
+	if (!SLUG_PATTERN.test(slug)) {
+		return null;
+	}
+
+	const response = await restRequest(
+		`/rest/v1/chat_shares?select=slug,title,created_at,messages&slug=eq.${slug}&limit=1`
+	);
+	if (!response.ok) {
+		const details = await response.text();
+		throw new Error(`Failed to load shared chat (${response.status}): ${details}`);
+	}
+
+	const payload = (await response.json()) as unknown;
+	const record = Array.isArray(payload) ? (payload[0] as Record<string, unknown> | undefined) : undefined;
+	if (!record || typeof record.title !== 'string' || typeof record.created_at !== 'string') {
+		return null;
+	}
+
+	return {
+		slug,
+		title: record.title,
+		createdAt: record.created_at,
+		messages: (Array.isArray(record.messages) ? record.messages : [])
+			.map(parseSharedMessage)
+			.filter((message): message is SharedMessage => message !== null)
+	};
+}
@@ -8,20 +8,167 @@ export interface ChatThreadSummary {
 	title: string;
 	createdAt: string;
 	updatedAt: string;
+	pinned: boolean;
+	archivedAt: string | null;
+	folderId: string | null;
+	tags: string[];
+	forkedFrom: ThreadOrigin | null;
+}
+
+// The thread and message a fork was copied from; the thread may since have been deleted.
+export interface ThreadOrigin {
+	threadId: string;
+	messageId: number;
+}
+
+// Only the fields that are present are changed; folderId null moves the thread out of its folder.
+export interface ThreadUpdate {
+	title?: string;
+	pinned?: boolean;
+	archived?: boolean;
+	folderId?: string | null;
+	tags?: string[];
+}
+
+// Omitted filters match everything except archived threads; folderId null matches threads outside any folder.
+export interface ThreadFilters {
+	archived?: boolean;
+	pinned?: boolean;
+	folderId?: string | null;
+	tag?: string;
+}
+
+export interface ThreadSummaryRecord {
+	content: string;
+	coveredMessageId: number | null;
+	updatedAt: string | null;
+}
+
+export type ChatMessagePart =
+	| { type: 'tool_call'; id: string; name: string; arguments: string }
+	| { type: 'tool_result'; toolCallId: string; name: string; content: string; isError: boolean };
+
+export interface GenerationMetadata {
+	provider: string | null;
+	model: string | null;
+	usedFallback: boolean;
+	promptTokens: number | null;
+	completionTokens: number | null;
+	latencyMs: number | null;
+	finishReason: string | null;
 }
 
 export interface ChatMessageRecord {
 	id: number;
 	threadId: string;
+	parentId: number | null;
 	role: StoredMessageRole;
 	content: string;
 	attachments: string[];
+	reasoning: string | null;
+	stopped: boolean;
+	parts: ChatMessagePart[];
+	generation: GenerationMetadata | null;
 	createdAt: string;
 }
 
+export interface ChatMessageSearchHit {
+	messageId: number;
+	threadId: string;
+	threadTitle: string | null;
+	role: StoredMessageRole;
+	content: string;
+	createdAt: string;
+}
+
+// Highlights are [start, end) character offsets into the snippet or title they belong to.
+export interface ChatSearchMatch {
+	messageId: number;
+	role: StoredMessageRole;
+	snippet: string;
+	highlights: [number, number][];
+	createdAt: string;
+}
+
+export interface ChatSearchResult {
+	threadId: string;
+	title: string;
+	titleHighlights: [number, number][];
+	updatedAt: string;
+	matches: ChatSearchMatch[];
+}
+
+export interface ChatPathMessage extends ChatMessageRecord {
+	siblingIds: number[];
+}
+
+export interface ThreadCursor {
+	updatedAt: string;
+	id: string;
+}
+
+export interface ChatThreadPage {
+	threads: ChatThreadSummary[];
+	nextCursor: string | null;
+}
+
+// nextCursor is the id of the oldest message in the page; pass it back to load the messages before it.
+export interface ChatMessagePage {
+	messages: ChatPathMessage[];
+	nextCursor: string | null;
+}
+
+export interface PageOptions<TCursor> {
+	cursor?: TCursor | null;
+	limit?: number;
+}
+
+interface MessageLink {
+	id: number;
+	parentId: number | null;
+}
+
+export interface ChatMessageTree {
+	threadId: string;
+	messages: ChatMessageRecord[];
+	activeMessageId: number | null;
+	legacy: boolean;
+}
+
+export interface AddMessageOptions {
+	parentId?: number | null;
+	reasoning?: string | null;
+	stopped?: boolean;
+	parts?: ChatMessagePart[];
+	generation?: GenerationMetadata | null;
+	createdAt?: string;
+}
+
+// Imported threads keep their original timestamps and source so re-imports can skip them; forks record their origin.
+export interface CreateThreadOptions {
+	createdAt?: string;
+	updatedAt?: string;
+	importSource?: string;
+	importId?: string;
+	forkedFrom?: ThreadOrigin;
+}
+
+const THREAD_COLUMNS =
+	'id,title,created_at,updated_at,pinned,archived_at,folder_id,tags,forked_from_thread_id,forked_from_message_id';
+const MAX_THREAD_TAGS = 10;
+const MAX_TAG_CHARS = 32;
+const DEFAULT_THREAD_PAGE_SIZE = 30;
+const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+const SEARCH_CONFIG = 'english';
+const MAX_SEARCH_QUERY_CHARS = 200;
+const MAX_SEARCH_MESSAGES = 200;
+const MAX_SEARCH_THREADS = 20;
+const MAX_MATCHES_PER_THREAD = 3;
+const SNIPPET_RADIUS = 80;
 const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 
-function isUuid(value: string): boolean {
+export function isUuid(value: string): boolean {
 	return UUID_PATTERN.test(value);
 }
 
@@ -65,6 +212,65 @@ function normalizeAttachments(value: unknown): string[] {
 	return value.filter((item): item is string => typeof item === 'string').map((item) => item.trim()).filter(Boolean);
 }
 
+function parseMessagePart(value: unknown): ChatMessagePart | null {
+	if (!value || typeof value !== 'object') {
+		return null;
+	}
+
+	const record = value as Record<string, unknown>;
+	if (record.type === 'tool_call' && typeof record.id === 'string' && typeof record.name === 'string') {
+		return {
+			type: 'tool_call',
+			id: record.id,
+			name: record.name,
+			arguments: typeof record.arguments === 'string' ? record.arguments : '{}'
+		};
+	}
+	if (record.type === 'tool_result' && typeof record.toolCallId === 'string' && typeof record.name === 'string') {
+		return {
+			type: 'tool_result',
+			toolCallId: record.toolCallId,
+			name: record.name,
+			content: typeof record.content === 'string' ? record.content : '',
+			isError: record.isError === true
+		};
+	}
+	return null;
+}
+
+function toOptionalString(value: unknown): string | null {
+	return typeof value === 'string' && value ? value : null;
+}
+
+function toOptionalCount(value: unknown): number | null {
+	return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.floor(value) : null;
+}
+
+export function parseGeneration(value: unknown): GenerationMetadata | null {
+	if (!value || typeof value !== 'object' || Array.isArray(value)) {
+		return null;
+	}
+
+	const record = value as Record<string, unknown>;
+	return {
+		provider: toOptionalString(record.provider),
+		model: toOptionalString(record.model),
+		usedFallback: record.usedFallback === true,
+		promptTokens: toOptionalCount(record.promptTokens),
+		completionTokens: toOptionalCount(record.completionTokens),
+		latencyMs: toOptionalCount(record.latencyMs),
+		finishReason: toOptionalString(record.finishReason)
+	};
+}
+
+export function normalizeParts(value: unknown): ChatMessagePart[] {
+	if (!Array.isArray(value)) {
+		return [];
+	}
+
+	return value.map(parseMessagePart).filter((part): part is ChatMessagePart => part !== null);
+}
+
 function parseThreadRow(row: unknown): ChatThreadSummary | null {
 	if (!row || typeof row !== 'object') {
 		return null;
@@ -84,7 +290,15 @@ function parseThreadRow(row: unknown): ChatThreadSummary | null {
 		id: record.id,
 		title: record.title,
 		createdAt: record.created_at,
-		updatedAt: record.updated_at
+		updatedAt: record.updated_at,
+		pinned: record.pinned === true,
+		archivedAt: typeof record.archived_at === 'string' ? record.archived_at : null,
+		folderId: typeof record.folder_id === 'string' ? record.folder_id : null,
+		tags: normalizeThreadTags(record.tags) ?? [],
+		forkedFrom:
+			typeof record.forked_from_thread_id === 'string' && typeof record.forked_from_message_id === 'number'
+				? { threadId: record.forked_from_thread_id, messageId: record.forked_from_message_id }
+				: null
 	};
 }
 
@@ -107,13 +321,55 @@ function parseMessageRow(row: unknown): ChatMessageRecord | null {
 	return {
 		id: record.id,
 		threadId: record.thread_id,
+		parentId: typeof record.parent_id === 'number' ? record.parent_id : null,
 		role: record.role,
 		content: record.content,
 		attachments: normalizeAttachments(record.attachments),
+		reasoning: typeof record.reasoning === 'string' && record.reasoning ? record.reasoning : null,
+		stopped: record.stopped === true,
+		parts: normalizeParts(record.parts),
+		generation: parseGeneration(record.generation),
 		createdAt: record.created_at
 	};
 }
 
+function parseThreadSummaryRow(row: unknown): ThreadSummaryRecord | null {
+	if (!row || typeof row !== 'object') {
+		return null;
+	}
+
+	const record = row as Record<string, unknown>;
+	if (typeof record.summary !== 'string' || !record.summary.trim()) {
+		return null;
+	}
+
+	return {
+		content: record.summary,
+		coveredMessageId: typeof record.summary_message_id === 'number' ? record.summary_message_id : null,
+		updatedAt: typeof record.summary_updated_at === 'string' ? record.summary_updated_at : null
+	};
+}
+
+// Braces, quotes, commas and backslashes are dropped so a tag can be used inside a Postgres array literal.
+export function normalizeThreadTags(value: unknown): string[] | null {
+	if (!Array.isArray(value)) {
+		return null;
+	}
+
+	const tags = new Map<string, string>();
+	for (const item of value) {
+		if (typeof item !== 'string') {
+			return null;
+		}
+
+		const tag = item.replace(/[{}",\\]/g, ' ').trim().replace(/\s+/g, ' ').slice(0, MAX_TAG_CHARS);
+		if (tag && !tags.has(tag.toLowerCase())) {
+			tags.set(tag.toLowerCase(), tag);
+		}
+	}
+	return [...tags.values()].slice(0, MAX_THREAD_TAGS);
+}
+
 export function normalizeThreadTitle(message: string): string {
 	const normalized = message.trim().replace(/\s+/g, ' ');
 	if (!normalized) {
@@ -122,9 +378,75 @@ export function normalizeThreadTitle(message: string): string {
 	return normalized.slice(0, 60);
 }
 
-export async function listThreadsForUser(userId: string): Promise<ChatThreadSummary[]> {
+export function normalizePageLimit(value: unknown, fallback: number): number {
+	const parsed = typeof value === 'number' ? value : Number(value);
+	if (value === null || value === undefined || value === '' || !Number.isFinite(parsed) || parsed < 1) {
+		return fallback;
+	}
+	return Math.min(Math.floor(parsed), MAX_PAGE_SIZE);
+}
+
+function encodeThreadCursor(thread: ChatThreadSummary): string {
+	return Buffer.from(JSON.stringify({ updatedAt: thread.updatedAt, id: thread.id })).toString('base64url');
+}
+
+export function parseThreadCursor(value: string): ThreadCursor | null {
+	try {
+		const payload = JSON.parse(Buffer.from(value, 'base64url').toString('utf8')) as unknown;
+		if (!payload || typeof payload !== 'object') {
+			return null;
+		}
+
+		const record = payload as Record<string, unknown>;
+		if (
+			typeof record.updatedAt !== 'string' ||
+			Number.isNaN(Date.parse(record.updatedAt)) ||
+			typeof record.id !== 'string' ||
+			!isUuid(record.id)
+		) {
+			return null;
+		}
+		return { updatedAt: record.updatedAt, id: record.id };
+	} catch {
+		return null;
+	}
+}
+
+export function parseMessageCursor(value: string): number | null {
+	const parsed = Number(value);
+	return Number.isSafeInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+function buildThreadFilters(filters: ThreadFilters): string {
+	const parts = [filters.archived ? 'archived_at=not.is.null' : 'archived_at=is.null'];
+	if (filters.pinned !== undefined) {
+		parts.push(`pinned=is.${filters.pinned}`);
+	}
+	if (filters.folderId === null) {
+		parts.push('folder_id=is.null');
+	} else if (filters.folderId !== undefined) {
+		parts.push(`folder_id=eq.${filters.folderId}`);
+	}
+	const tag = filters.tag ? normalizeThreadTags([filters.tag])?.[0] : undefined;
+	if (tag) {
+		parts.push(`tags=cs.${encodeURIComponent(`{"${tag}"}`)}`);
+	}
+	return parts.map((part) => `&${part}`).join('');
+}
+
+// Keyset on (updated_at, id) so pages stay stable while other threads are being written to.
+export async function listThreadsForUser(
+	userId: string,
+	options: PageOptions<ThreadCursor> & ThreadFilters = {}
+): Promise<ChatThreadPage> {
+	const limit = normalizePageLimit(options.limit, DEFAULT_THREAD_PAGE_SIZE);
+	const cursor = options.cursor;
+	const after = cursor
+		? `&or=${encodeURIComponent(`(updated_at.lt."${cursor.updatedAt}",and(updated_at.eq."${cursor.updatedAt}",id.lt.${cursor.id}))`)}`
+		: '';
+
 	const response = await restRequest(
-		`/rest/v1/chat_threads?select=id,title,created_at,updated_at&user_id=eq.${userId}&order=updated_at.desc`
+		`/rest/v1/chat_threads?select=${THREAD_COLUMNS}&user_id=eq.${userId}${buildThreadFilters(options)}${after}&order=updated_at.desc,id.desc&limit=${limit + 1}`
 	);
 	if (!response.ok) {
 		const details = await response.text();
@@ -133,10 +455,15 @@ export async function listThreadsForUser(userId: string): Promise<ChatThreadSumm
 
 	const payload = (await response.json()) as unknown;
 	if (!Array.isArray(payload)) {
-		return [];
+		return { threads: [], nextCursor: null };
 	}
 
-	return payload.map(parseThreadRow).filter((row): row is ChatThreadSummary => row !== null);
+	const threads = payload.map(parseThreadRow).filter((row): row is ChatThreadSummary => row !== null);
+	const page = threads.slice(0, limit);
+	return {
+		threads: page,
+		nextCursor: threads.length > limit && page.length > 0 ? encodeThreadCursor(page[page.length - 1]) : null
+	};
 }
 
 export async function getThreadForUser(userId: string, threadId: string): Promise<ChatThreadSummary | null> {
@@ -145,7 +472,7 @@ export async function getThreadForUser(userId: string, threadId: string): Promis
 	}
 
 	const response = await restRequest(
-		`/rest/v1/chat_threads?select=id,title,created_at,updated_at&id=eq.${threadId}&user_id=eq.${userId}&limit=1`
+		`/rest/v1/chat_threads?select=${THREAD_COLUMNS}&id=eq.${threadId}&user_id=eq.${userId}&limit=1`
 	);
 	if (!response.ok) {
 		const details = await response.text();
@@ -160,18 +487,34 @@ export async function getThreadForUser(userId: string, threadId: string): Promis
 	return parseThreadRow(payload[0]);
 }
 
-export async function createThreadForUser(userId: string, title: string): Promise<ChatThreadSummary> {
-	const response = await restRequest('/rest/v1/chat_threads', {
+export async function createThreadForUser(
+	userId: string,
+	title: string,
+	options: CreateThreadOptions = {}
+): Promise<ChatThreadSummary> {
+	const row: Record<string, unknown> = {
+		user_id: userId,
+		title: normalizeThreadTitle(title)
+	};
+	if (options.createdAt) {
+		row.created_at = options.createdAt;
+		row.updated_at = options.updatedAt ?? options.createdAt;
+	}
+	if (options.importSource && options.importId) {
+		row.import_source = options.importSource;
+		row.import_id = options.importId;
+	}
+	if (options.forkedFrom) {
+		row.forked_from_thread_id = options.forkedFrom.threadId;
+		row.forked_from_message_id = options.forkedFrom.messageId;
+	}
+
+	const response = await restRequest(`/rest/v1/chat_threads?select=${THREAD_COLUMNS}`, {
 		method: 'POST',
 		headers: {
 			Prefer: 'return=representation'
 		},
-		body: JSON.stringify([
-			{
-				user_id: userId,
-				title: normalizeThreadTitle(title)
-			}
-		])
+		body: JSON.stringify([row])
 	});
 
 	if (!response.ok) {
@@ -192,13 +535,67 @@ export async function createThreadForUser(userId: string, title: string): Promis
 	return thread;
 }
 
-export async function listMessagesForThread(userId: string, threadId: string): Promise<ChatMessageRecord[]> {
-	if (!isUuid(threadId)) {
+async function fetchThreadMessages(userId: string, threadId: string): Promise<ChatMessageRecord[]> {
+	const response = await restRequest(
+		`/rest/v1/chat_messages?select=id,thread_id,parent_id,role,content,attachments,reasoning,stopped,parts,generation,created_at&thread_id=eq.${threadId}&user_id=eq.${userId}&order=created_at.asc,id.asc`
+	);
+	if (!response.ok) {
+		const details = await response.text();
+		throw new Error(`Failed to list chat messages (${response.status}): ${details}`);
+	}
+
+	const payload = (await response.json()) as unknown;
+	if (!Array.isArray(payload)) {
+		return [];
+	}
+
+	return payload.map(parseMessageRow).filter((row): row is ChatMessageRecord => row !== null);
+}
+
+async function fetchActiveMessageId(userId: string, threadId: string): Promise<number | null> {
+	const response = await restRequest(
+		`/rest/v1/chat_threads?select=active_message_id&id=eq.${threadId}&user_id=eq.${userId}&limit=1`
+	);
+	if (!response.ok) {
+		const details = await response.text();
+		throw new Error(`Failed to fetch active branch (${response.status}): ${details}`);
+	}
+
+	const payload = (await response.json()) as unknown;
+	if (!Array.isArray(payload) || payload.length === 0 || !payload[0] || typeof payload[0] !== 'object') {
+		return null;
+	}
+
+	const value = (payload[0] as Record<string, unknown>).active_message_id;
+	return typeof value === 'number' ? value : null;
+}
+
+async function fetchMessageLinks(userId: string, threadId: string): Promise<MessageLink[]> {
+	const response = await restRequest(
+		`/rest/v1/chat_messages?select=id,parent_id&thread_id=eq.${threadId}&user_id=eq.${userId}&order=created_at.asc,id.asc`
+	);
+	if (!response.ok) {
+		const details = await response.text();
+		throw new Error(`Failed to list chat messages (${response.status}): ${details}`);
+	}
+
+	const payload = (await response.json()) as unknown;
+	if (!Array.isArray(payload)) {
+		return [];
+	}
+
+	return payload
+		.filter((row): row is Record<string, unknown> => Boolean(row) && typeof row === 'object' && typeof row.id === 'number')
+		.map((row) => ({ id: row.id as number, parentId: typeof row.parent_id === 'number' ? row.parent_id : null }));
+}
+
+async function fetchMessagesById(userId: string, threadId: string, ids: number[]): Promise<ChatMessageRecord[]> {
+	if (ids.length === 0) {
 		return [];
 	}
 
 	const response = await restRequest(
-		`/rest/v1/chat_messages?select=id,thread_id,role,content,attachments,created_at&thread_id=eq.${threadId}&user_id=eq.${userId}&order=created_at.asc`
+		`/rest/v1/chat_messages?select=id,thread_id,parent_id,role,content,attachments,reasoning,stopped,parts,generation,created_at&thread_id=eq.${threadId}&user_id=eq.${userId}&id=in.(${ids.join(',')})`
 	);
 	if (!response.ok) {
 		const details = await response.text();
@@ -213,12 +610,244 @@ export async function listMessagesForThread(userId: string, threadId: string): P
 	return payload.map(parseMessageRow).filter((row): row is ChatMessageRecord => row !== null);
 }
 
+// Threads written before branching have no parents or active pointer; read them as one linear branch.
+function linkLegacyMessages(messages: MessageLink[], activeMessageId: number | null): boolean {
+	const legacy = activeMessageId === null && messages.length > 1 && messages.every((item) => item.parentId === null);
+	if (legacy) {
+		messages.forEach((message, index) => {
+			message.parentId = index > 0 ? messages[index - 1].id : null;
+		});
+	}
+	return legacy;
+}
+
+function groupChildren<T extends MessageLink>(messages: T[]): Map<number | null, T[]> {
+	const children = new Map<number | null, T[]>();
+	for (const message of messages) {
+		const siblings = children.get(message.parentId);
+		if (siblings) {
+			siblings.push(message);
+		} else {
+			children.set(message.parentId, [message]);
+		}
+	}
+	return children;
+}
+
+function findLatestLeaf(children: Map<number | null, MessageLink[]>, startId: number | null): number | null {
+	let currentId = startId;
+	while (true) {
+		const next = children.get(currentId);
+		if (!next || next.length === 0) {
+			return currentId;
+		}
+		currentId = next[next.length - 1].id;
+	}
+}
+
+export async function getMessageTree(userId: string, threadId: string): Promise<ChatMessageTree> {
+	if (!isUuid(threadId)) {
+		return { threadId, messages: [], activeMessageId: null, legacy: false };
+	}
+
+	const [messages, activeMessageId] = await Promise.all([
+		fetchThreadMessages(userId, threadId),
+		fetchActiveMessageId(userId, threadId)
+	]);
+
+	const legacy = linkLegacyMessages(messages, activeMessageId);
+	return { threadId, messages, activeMessageId, legacy };
+}
+
+export function findMessageInTree(tree: ChatMessageTree, messageId: number): ChatMessageRecord | null {
+	return tree.messages.find((message) => message.id === messageId) ?? null;
+}
+
+function walkToRoot<T extends MessageLink>(messages: T[], messageId: number | null): T[] {
+	const byId = new Map(messages.map((message) => [message.id, message]));
+	const path: T[] = [];
+	let current = messageId !== null ? byId.get(messageId) : undefined;
+	while (current) {
+		path.unshift(current);
+		current = current.parentId !== null ? byId.get(current.parentId) : undefined;
+	}
+	return path;
+}
+
+function resolveActivePath<T extends MessageLink>(
+	messages: T[],
+	activeMessageId: number | null
+): (T & { siblingIds: number[] })[] {
+	const children = groupChildren(messages);
+	const activeExists = activeMessageId !== null && messages.some((message) => message.id === activeMessageId);
+	const leafId = findLatestLeaf(children, activeExists ? activeMessageId : null);
+
+	return walkToRoot(messages, leafId).map((message) => ({
+		...message,
+		siblingIds: (children.get(message.parentId) ?? [message]).map((sibling) => sibling.id)
+	}));
+}
+
+export function getPathToMessage(tree: ChatMessageTree, messageId: number | null): ChatMessageRecord[] {
+	return walkToRoot(tree.messages, messageId);
+}
+
+export function getActivePath(tree: ChatMessageTree): ChatPathMessage[] {
+	return resolveActivePath(tree.messages, tree.activeMessageId);
+}
+
+// The branch is resolved from ids and parents alone, so only the requested page of message bodies is loaded.
+export async function listMessagesForThread(
+	userId: string,
+	threadId: string,
+	options: PageOptions<number> = {}
+): Promise<ChatMessagePage> {
+	if (!isUuid(threadId)) {
+		return { messages: [], nextCursor: null };
+	}
+
+	const [links, activeMessageId] = await Promise.all([
+		fetchMessageLinks(userId, threadId),
+		fetchActiveMessageId(userId, threadId)
+	]);
+	linkLegacyMessages(links, activeMessageId);
+	const path = resolveActivePath(links, activeMessageId);
+
+	const limit = normalizePageLimit(options.limit, DEFAULT_MESSAGE_PAGE_SIZE);
+	const before = options.cursor ?? null;
+	// Ids grow along a branch, so this also works when the cursor message has since left the active branch.
+	const beforeIndex = before === null ? -1 : path.findIndex((message) => message.id >= before);
+	const end = beforeIndex === -1 ? path.length : beforeIndex;
+	const start = Math.max(end - limit, 0);
+	const pageLinks = path.slice(start, end);
+
+	const records = new Map(
+		(await fetchMessagesById(userId, threadId, pageLinks.map((link) => link.id))).map((record) => [record.id, record])
+	);
+	const messages: ChatPathMessage[] = [];
+	for (const link of pageLinks) {
+		const record = records.get(link.id);
+		if (record) {
+			messages.push({ ...record, parentId: link.parentId, siblingIds: link.siblingIds });
+		}
+	}
+
+	return {
+		messages,
+		nextCursor: start > 0 && pageLinks.length > 0 ? String(pageLinks[0].id) : null
+	};
+}
+
+// Copies the path from the root to messageId into a new thread; the original keeps all of its branches.
+export async function forkThreadForUser(
+	userId: string,
+	thread: ChatThreadSummary,
+	messageId: number
+): Promise<ChatThreadSummary | null> {
+	const path = getPathToMessage(await getMessageTree(userId, thread.id), messageId);
+	if (path.length === 0) {
+		return null;
+	}
+
+	const fork = await createThreadForUser(userId, `Fork of ${thread.title}`, {
+		forkedFrom: { threadId: thread.id, messageId }
+	});
+
+	try {
+		let parentId: number | null = null;
+		for (const message of path) {
+			const copy = await addMessageToThread(userId, fork.id, message.role, message.content, message.attachments, {
+				parentId,
+				reasoning: message.reasoning,
+				stopped: message.stopped,
+				parts: message.parts,
+				generation: message.generation,
+				createdAt: message.createdAt
+			});
+			parentId = copy.id;
+		}
+		await touchThread(fork.id, parentId ?? undefined);
+	} catch (error) {
+		await deleteThreadForUser(userId, fork.id).catch((cleanupError) => {
+			console.error(cleanupError);
+		});
+		throw error;
+	}
+
+	return fork;
+}
+
+export async function persistLegacyMessageTree(userId: string, tree: ChatMessageTree): Promise<void> {
+	if (!tree.legacy) {
+		return;
+	}
+
+	const response = await restRequest('/rest/v1/chat_messages?on_conflict=id', {
+		method: 'POST',
+		headers: {
+			Prefer: 'resolution=merge-duplicates,return=minimal'
+		},
+		body: JSON.stringify(
+			tree.messages.map((message) => ({
+				id: message.id,
+				thread_id: message.threadId,
+				user_id: userId,
+				parent_id: message.parentId,
+				role: message.role,
+				content: message.content,
+				attachments: message.attachments,
+				created_at: message.createdAt
+			}))
+		)
+	});
+
+	if (!response.ok) {
+		const details = await response.text();
+		throw new Error(`Failed to upgrade chat history (${response.status}): ${details}`);
+	}
+
+	tree.legacy = false;
+}
+
+export async function setActiveBranch(
+	userId: string,
+	threadId: string,
+	messageId: number
+): Promise<ChatPathMessage[] | null> {
+	const tree = await getMessageTree(userId, threadId);
+	if (!findMessageInTree(tree, messageId)) {
+		return null;
+	}
+
+	await persistLegacyMessageTree(userId, tree);
+	const leafId = findLatestLeaf(groupChildren(tree.messages), messageId);
+
+	const response = await restRequest(`/rest/v1/chat_threads?id=eq.${threadId}&user_id=eq.${userId}`, {
+		method: 'PATCH',
+		headers: {
+			Prefer: 'return=minimal'
+		},
+		body: JSON.stringify({
+			active_message_id: leafId
+		})
+	});
+
+	if (!response.ok) {
+		const details = await response.text();
+		throw new Error(`Failed to switch branch (${response.status}): ${details}`);
+	}
+
+	tree.activeMessageId = leafId;
+	return getActivePath(tree);
+}
+
 export async function addMessageToThread(
 	userId: string,
 	threadId: string,
 	role: StoredMessageRole,
 	content: string,
-	attachments: string[] = []
+	attachments: string[] = [],
+	options: AddMessageOptions = {}
 ): Promise<ChatMessageRecord> {
 	if (!isUuid(threadId)) {
 		throw new Error('Invalid thread id.');
@@ -233,9 +862,15 @@ export async function addMessageToThread(
 			{
 				thread_id: threadId,
 				user_id: userId,
+				parent_id: options.parentId ?? null,
 				role,
 				content,
-				attachments
+				attachments,
+				reasoning: options.reasoning || null,
+				stopped: options.stopped ?? false,
+				parts: options.parts ?? [],
+				generation: options.generation ?? null,
+				...(options.createdAt ? { created_at: options.createdAt } : {})
 			}
 		])
 	});
@@ -258,19 +893,266 @@ export async function addMessageToThread(
 	return message;
 }
 
-export async function touchThread(threadId: string): Promise<void> {
+export async function searchMessagesForUser(
+	userId: string,
+	query: string,
+	limit = 5
+): Promise<ChatMessageSearchHit[]> {
+	// PostgREST treats * as the ilike wildcard; commas and parentheses would break the filter syntax.
+	const term = query.replace(/[*%_,()\\]/g, ' ').trim().replace(/\s+/g, ' ');
+	if (!term) {
+		return [];
+	}
+
+	const response = await restRequest(
+		`/rest/v1/chat_messages?select=id,thread_id,role,content,created_at,chat_threads(title)&user_id=eq.${userId}&content=ilike.${encodeURIComponent(`*${term}*`)}&order=created_at.desc&limit=${limit}`
+	);
+
+	if (!response.ok) {
+		const details = await response.text();
+		throw new Error(`Failed to search chat history (${response.status}): ${details}`);
+	}
+
+	const payload = (await response.json()) as unknown;
+	if (!Array.isArray(payload)) {
+		return [];
+	}
+
+	const hits: ChatMessageSearchHit[] = [];
+	for (const row of payload) {
+		if (!row || typeof row !== 'object') {
+			continue;
+		}
+
+		const record = row as Record<string, unknown>;
+		if (
+			typeof record.id !== 'number' ||
+			typeof record.thread_id !== 'string' ||
+			(record.role !== 'user' && record.role !== 'assistant') ||
+			typeof record.content !== 'string' ||
+			typeof record.created_at !== 'string'
+		) {
+			continue;
+		}
+
+		const thread = record.chat_threads as Record<string, unknown> | null | undefined;
+		hits.push({
+			messageId: record.id,
+			threadId: record.thread_id,
+			threadTitle: typeof thread?.title === 'string' ? thread.title : null,
+			role: record.role,
+			content: record.content,
+			createdAt: record.created_at
+		});
+	}
+	return hits;
+}
+
+function extractSearchTerms(query: string): string[] {
+	const terms = new Set<string>();
+	for (const token of query.toLowerCase().split(/\s+/)) {
+		// websearch_to_tsquery excludes -words and treats a bare "or" as an operator.
+		if (!token || token.startsWith('-') || token === 'or') {
+			continue;
+		}
+		for (const word of token.match(/[\p{L}\p{N}]+/gu) ?? []) {
+			terms.add(word);
+		}
+	}
+	return [...terms];
+}
+
+function buildHighlightPattern(terms: string[]): RegExp | null {
+	if (terms.length === 0) {
+		return null;
+	}
+
+	// Full-text search matches stems, so highlight whole words that start with a trimmed form of each term.
+	const stems = terms.map((term) => (term.length > 4 ? term.slice(0, Math.max(4, term.length - 3)) : term));
+	return new RegExp(`(?<![\\p{L}\\p{N}])(?:${stems.join('|')})[\\p{L}\\p{N}]*`, 'giu');
+}
+
+function findHighlights(text: string, pattern: RegExp | null): [number, number][] {
+	if (!pattern) {
+		return [];
+	}
+	return [...text.matchAll(pattern)].map((match) => [match.index, match.index + match[0].length]);
+}
+
+function buildSnippet(content: string, pattern: RegExp | null): Pick<ChatSearchMatch, 'snippet' | 'highlights'> {
+	const text = content.replace(/\s+/g, ' ').trim();
+	const highlights = findHighlights(text, pattern);
+	const center = highlights[0]?.[0] ?? 0;
+
+	let start = Math.max(center - SNIPPET_RADIUS, 0);
+	if (start > 0) {
+		const space = text.indexOf(' ', start);
+		if (space !== -1 && space < center) {
+			start = space + 1;
+		}
+	}
+	let end = Math.min(Math.max(center + SNIPPET_RADIUS, start + SNIPPET_RADIUS * 2), text.length);
+	if (end < text.length) {
+		const space = text.lastIndexOf(' ', end);
+		if (space > (highlights[0]?.[1] ?? start)) {
+			end = space;
+		}
+	}
+
+	const prefix = start > 0 ? '…' : '';
+	const snippet = `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+	return {
+		snippet,
+		highlights: highlights
+			.filter(([from, to]) => from >= start && to <= end)
+			.map(([from, to]) => [from - start + prefix.length, to - start + prefix.length])
+	};
+}
+
+// Matches on titles and message bodies are merged per thread, most recently active thread first.
+export async function searchChatsForUser(userId: string, query: string): Promise<ChatSearchResult[]> {
+	const trimmed = query.trim().slice(0, MAX_SEARCH_QUERY_CHARS);
+	if (!trimmed) {
+		return [];
+	}
+
+	const filter = `wfts(${SEARCH_CONFIG}).${encodeURIComponent(trimmed)}`;
+	const [messageResponse, threadResponse] = await Promise.all([
+		restRequest(
+			`/rest/v1/chat_messages?select=id,thread_id,role,content,created_at,chat_threads(title,updated_at)&user_id=eq.${userId}&content=${filter}&order=created_at.desc&limit=${MAX_SEARCH_MESSAGES}`
+		),
+		restRequest(
+			`/rest/v1/chat_threads?select=${THREAD_COLUMNS}&user_id=eq.${userId}&title=${filter}&order=updated_at.desc&limit=${MAX_SEARCH_THREADS}`
+		)
+	]);
+
+	for (const response of [messageResponse, threadResponse]) {
+		if (!response.ok) {
+			const details = await response.text();
+			throw new Error(`Failed to search chats (${response.status}): ${details}`);
+		}
+	}
+
+	const pattern = buildHighlightPattern(extractSearchTerms(trimmed));
+	const results = new Map<string, ChatSearchResult>();
+
+	const threadPayload = (await threadResponse.json()) as unknown;
+	for (const thread of Array.isArray(threadPayload) ? threadPayload.map(parseThreadRow) : []) {
+		if (thread) {
+			results.set(thread.id, {
+				threadId: thread.id,
+				title: thread.title,
+				titleHighlights: findHighlights(thread.title, pattern),
+				updatedAt: thread.updatedAt,
+				matches: []
+			});
+		}
+	}
+
+	const messagePayload = (await messageResponse.json()) as unknown;
+	for (const row of Array.isArray(messagePayload) ? messagePayload : []) {
+		if (!row || typeof row !== 'object') {
+			continue;
+		}
+
+		const record = row as Record<string, unknown>;
+		const thread = record.chat_threads as Record<string, unknown> | null | undefined;
+		if (
+			typeof record.id !== 'number' ||
+			typeof record.thread_id !== 'string' ||
+			(record.role !== 'user' && record.role !== 'assistant') ||
+			typeof record.content !== 'string' ||
+			typeof record.created_at !== 'string' ||
+			typeof thread?.title !== 'string' ||
+			typeof thread.updated_at !== 'string'
+		) {
+			continue;
+		}
+
+		let result = results.get(record.thread_id);
+		if (!result) {
+			result = {
+				threadId: record.thread_id,
+				title: thread.title,
+				titleHighlights: findHighlights(thread.title, pattern),
+				updatedAt: thread.updated_at,
+				matches: []
+			};
+			results.set(record.thread_id, result);
+		}
+		if (result.matches.length < MAX_MATCHES_PER_THREAD) {
+			result.matches.push({
+				messageId: record.id,
+				role: record.role,
+				...buildSnippet(record.content, pattern),
+				createdAt: record.created_at
+			});
+		}
+	}
+
+	return [...results.values()]
+		.sort((left, right) => Date.parse(right.updatedAt) - Date.parse(left.updatedAt))
+		.slice(0, MAX_SEARCH_THREADS);
+}
+
+// Maps each already-imported source id to the thread it created.
+export async function findImportedThreads(
+	userId: string,
+	importSource: string,
+	importIds: string[]
+): Promise<Map<string, string>> {
+	const found = new Map<string, string>();
+	const uniqueIds = [...new Set(importIds)];
+
+	for (let start = 0; start < uniqueIds.length; start += MAX_PAGE_SIZE) {
+		const list = uniqueIds
+			.slice(start, start + MAX_PAGE_SIZE)
+			.map((id) => `"${id.replace(/["\\]/g, '')}"`)
+			.join(',');
+		const response = await restRequest(
+			`/rest/v1/chat_threads?select=id,import_id&user_id=eq.${userId}&import_source=eq.${encodeURIComponent(importSource)}&import_id=in.(${encodeURIComponent(list)})`
+		);
+		if (!response.ok) {
+			const details = await response.text();
+			throw new Error(`Failed to look up imported chats (${response.status}): ${details}`);
+		}
+
+		const payload = (await response.json()) as unknown;
+		if (!Array.isArray(payload)) {
+			continue;
+		}
+		for (const row of payload as Record<string, unknown>[]) {
+			if (typeof row?.id === 'string' && typeof row.import_id === 'string') {
+				found.set(row.import_id, row.id);
+			}
+		}
+	}
+
+	return found;
+}
+
+export async function touchThread(
+	threadId: string,
+	activeMessageId?: number,
+	updatedAt = new Date().toISOString()
+): Promise<void> {
 	if (!isUuid(threadId)) {
 		return;
 	}
 
+	const patch: Record<string, unknown> = {
+		updated_at: updatedAt
+	};
+	if (activeMessageId !== undefined) {
+		patch.active_message_id = activeMessageId;
+	}
+
 	const response = await restRequest(`/rest/v1/chat_threads?id=eq.${threadId}`, {
 		method: 'PATCH',
 		headers: {
 			Prefer: 'return=minimal'
 		},
-		body: JSON.stringify({
-			updated_at: new Date().toISOString()
-		})
+		body: JSON.stringify(patch)
 	});
 
 	if (!response.ok) {
@@ -279,29 +1161,78 @@ export async function touchThread(threadId: string): Promise<void> {
 	}
 }
 
-export async function renameThreadForUser(
+// Only replaces the placeholder title a chat starts with, so a rename that lands first always wins.
+export async function saveGeneratedThreadTitle(userId: string, threadId: string, title: string): Promise<boolean> {
+	if (!isUuid(threadId)) {
+		return false;
+	}
+
+	const response = await restRequest(
+		`/rest/v1/chat_threads?id=eq.${threadId}&user_id=eq.${userId}&title_source=eq.auto&select=id`,
+		{
+			method: 'PATCH',
+			headers: {
+				Prefer: 'return=representation'
+			},
+			body: JSON.stringify({
+				title: normalizeThreadTitle(title),
+				title_source: 'generated'
+			})
+		}
+	);
+
+	if (!response.ok) {
+		const details = await response.text();
+		throw new Error(`Failed to save generated chat title (${response.status}): ${details}`);
+	}
+
+	const payload = (await response.json()) as unknown;
+	return Array.isArray(payload) && payload.length > 0;
+}
+
+// Renaming counts as activity; pinning, archiving, filing and tagging leave the thread where it is in the list.
+export async function updateThreadForUser(
 	userId: string,
 	threadId: string,
-	title: string
+	update: ThreadUpdate
 ): Promise<ChatThreadSummary | null> {
 	if (!isUuid(threadId)) {
 		return null;
 	}
 
-	const response = await restRequest(`/rest/v1/chat_threads?id=eq.${threadId}&user_id=eq.${userId}`, {
-		method: 'PATCH',
-		headers: {
-			Prefer: 'return=representation'
-		},
-		body: JSON.stringify({
-			title: normalizeThreadTitle(title),
-			updated_at: new Date().toISOString()
-		})
-	});
+	const patch: Record<string, unknown> = {};
+	if (update.title !== undefined) {
+		patch.title = normalizeThreadTitle(update.title);
+		patch.title_source = 'user';
+		patch.updated_at = new Date().toISOString();
+	}
+	if (update.pinned !== undefined) {
+		patch.pinned = update.pinned;
+	}
+	if (update.archived !== undefined) {
+		patch.archived_at = update.archived ? new Date().toISOString() : null;
+	}
+	if (update.folderId !== undefined) {
+		patch.folder_id = update.folderId;
+	}
+	if (update.tags !== undefined) {
+		patch.tags = normalizeThreadTags(update.tags) ?? [];
+	}
+
+	const response = await restRequest(
+		`/rest/v1/chat_threads?id=eq.${threadId}&user_id=eq.${userId}&select=${THREAD_COLUMNS}`,
+		{
+			method: 'PATCH',
+			headers: {
+				Prefer: 'return=representation'
+			},
+			body: JSON.stringify(patch)
+		}
+	);
 
 	if (!response.ok) {
 		const details = await response.text();
-		throw new Error(`Failed to rename chat (${response.status}): ${details}`);
+		throw new Error(`Failed to update chat (${response.status}): ${details}`);
 	}
 
 	const payload = (await response.json()) as unknown;
@@ -312,6 +1243,11 @@ export async function renameThreadForUser(
 	return parseThreadRow(payload[0]);
 }
 
+// PostgREST reports a table that was never created as PGRST205 (404) or, on older versions, as 42P01.
+function isMissingTableError(status: number, details: string): boolean {
+	return status === 404 || details.includes('PGRST205') || details.includes('42P01');
+}
+
 export async function deleteThreadForUser(userId: string, threadId: string): Promise<boolean> {
 	if (!isUuid(threadId)) {
 		return false;
@@ -332,6 +1268,22 @@ export async function deleteThreadForUser(userId: string, threadId: string): Pro
 		throw new Error(`Failed to delete chat messages (${deleteMessagesResponse.status}): ${details}`);
 	}
 
+	// Share links are snapshots, but deleting the chat still takes them down.
+	const deleteSharesResponse = await restRequest(`/rest/v1/chat_shares?thread_id=eq.${threadId}&user_id=eq.${userId}`, {
+		method: 'DELETE',
+		headers: {
+			Prefer: 'return=minimal'
+		}
+	});
+
+	if (!deleteSharesResponse.ok) {
+		const details = await deleteSharesResponse.text();
+		// Without a chat_shares table there are no links to take down.
+		if (!isMissingTableError(deleteSharesResponse.status, details)) {
+			throw new Error(`Failed to delete share links (${deleteSharesResponse.status}): ${details}`);
+		}
+	}
+
 	const deleteThreadResponse = await restRequest(
 		`/rest/v1/chat_threads?id=eq.${threadId}&user_id=eq.${userId}`,
 		{
@@ -350,3 +1302,78 @@ export async function deleteThreadForUser(userId: string, threadId: string): Pro
 	const payload = (await deleteThreadResponse.json()) as unknown;
 	return Array.isArray(payload) && payload.length > 0;
 }
+
+export async function getThreadSummary(userId: string, threadId: string): Promise<ThreadSummaryRecord | null> {
+	if (!isUuid(threadId)) {
+		return null;
+	}
+
+	const response = await restRequest(
+		`/rest/v1/chat_threads?select=summary,summary_message_id,summary_updated_at&id=eq.${threadId}&user_id=eq.${userId}&limit=1`
+	);
+	if (!response.ok) {
+		const details = await response.text();
+		throw new Error(`Failed to fetch chat summary (${response.status}): ${details}`);
+	}
+
+	const payload = (await response.json()) as unknown;
+	if (!Array.isArray(payload) || payload.length === 0) {
+		return null;
+	}
+
+	return parseThreadSummaryRow(payload[0]);
+}
+
+export async function saveThreadSummary(
+	userId: string,
+	threadId: string,
+	content: string,
+	coveredMessageId: number
+): Promise<void> {
+	if (!isUuid(threadId)) {
+		return;
+	}
+
+	const response = await restRequest(`/rest/v1/chat_threads?id=eq.${threadId}&user_id=eq.${userId}`, {
+		method: 'PATCH',
+		headers: {
+			Prefer: 'return=minimal'
+		},
+		body: JSON.stringify({
+			summary: content,
+			summary_message_id: coveredMessageId,
+			summary_updated_at: new Date().toISOString()
+		})
+	});
+
+	if (!response.ok) {
+		const details = await response.text();
+		throw new Error(`Failed to save chat summary (${response.status}): ${details}`);
+	}
+}
+
+export async function clearThreadSummary(userId: string, threadId: string): Promise<boolean> {
+	if (!isUuid(threadId)) {
+		return false;
+	}
+
+	const response = await restRequest(`/rest/v1/chat_threads?id=eq.${threadId}&user_id=eq.${userId}`, {
+		method: 'PATCH',
+		headers: {
+			Prefer: 'return=representation'
+		},
+		body: JSON.stringify({
+			summary: null,
+			summary_message_id: null,
+			summary_updated_at: null
+		})
+	});
+
+	if (!response.ok) {
+		const details = await response.text();
+		throw new Error(`Failed to reset chat summary (${response.status}): ${details}`);
+	}
+
+	const payload = (await response.json()) as unknown;
+	return Array.isArray(payload) && payload.length > 0;
+}
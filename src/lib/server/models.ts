@@ -0,0 +1,194 @@
+import { env } from '$env/dynamic/private';
+import {
+	getProviderDefaultModel,
+	listEnabledProviders,
+	type ChatProvider,
+	type ChatProviderCapabilities
+} from './chat-providers';
+import type { UserRole } from './quota';
+
+// USD per million tokens.
+export interface ModelPricing {
+	prompt: number;
+	completion: number;
+}
+
+export interface ChatModelEntry {
+	id: string;
+	displayName: string;
+	provider: ChatProvider;
+	model: string;
+	contextLength: number;
+	capabilities: ChatProviderCapabilities;
+	roles: UserRole[];
+	pricing: ModelPricing | null;
+}
+
+const ALL_ROLES: UserRole[] = ['base', 'vip', 'dev'];
+const DEFAULT_CONTEXT_LENGTH = 8_192;
+const MODEL_ID_PATTERN = /^[a-z0-9][a-z0-9._:/-]{0,79}$/i;
+
+function normalizeText(value: unknown): string | null {
+	if (typeof value !== 'string') {
+		return null;
+	}
+
+	const trimmed = value.trim();
+	return trimmed.length > 0 ? trimmed : null;
+}
+
+function parseRoles(value: unknown): UserRole[] {
+	if (!Array.isArray(value)) {
+		return [...ALL_ROLES];
+	}
+
+	const roles = ALL_ROLES.filter((role) => value.includes(role));
+	return roles.length > 0 ? roles : [...ALL_ROLES];
+}
+
+function parseContextLength(value: unknown, fallback: number): number {
+	const parsed = typeof value === 'number' ? value : Number(value);
+	return Number.isFinite(parsed) && parsed >= 512 ? Math.floor(parsed) : fallback;
+}
+
+function parsePricing(value: unknown): ModelPricing | null {
+	if (!value || typeof value !== 'object') {
+		return null;
+	}
+
+	const record = value as Record<string, unknown>;
+	const prompt = Number(record.prompt);
+	const completion = Number(record.completion);
+	if (!Number.isFinite(prompt) || !Number.isFinite(completion) || prompt < 0 || completion < 0) {
+		return null;
+	}
+	return { prompt, completion };
+}
+
+function parseCapabilities(value: unknown, fallback: ChatProviderCapabilities): ChatProviderCapabilities {
+	if (!value || typeof value !== 'object') {
+		return { ...fallback };
+	}
+
+	const record = value as Record<string, unknown>;
+	const pick = (key: keyof ChatProviderCapabilities) =>
+		typeof record[key] === 'boolean' ? (record[key] as boolean) && fallback[key] : fallback[key];
+
+	return {
+		streaming: pick('streaming'),
+		reasoning: pick('reasoning'),
+		vision: pick('vision'),
+		tools: pick('tools')
+	};
+}
+
+function parseCatalogEntry(
+	value: unknown,
+	providers: Map<ChatProvider, ChatProviderCapabilities>
+): ChatModelEntry | null {
+	if (!value || typeof value !== 'object') {
+		return null;
+	}
+
+	const record = value as Record<string, unknown>;
+	const id = normalizeText(record.id);
+	const provider = normalizeText(record.provider)?.toLowerCase() ?? null;
+	const model = normalizeText(record.model);
+	if (!id || !MODEL_ID_PATTERN.test(id) || !provider || !model) {
+		return null;
+	}
+
+	const providerCapabilities = providers.get(provider);
+	if (!providerCapabilities) {
+		return null;
+	}
+
+	return {
+		id,
+		displayName: normalizeText(record.displayName) ?? model,
+		provider,
+		model,
+		contextLength: parseContextLength(record.contextLength, getDefaultContextLength()),
+		capabilities: parseCapabilities(record.capabilities, providerCapabilities),
+		roles: parseRoles(record.roles),
+		pricing: parsePricing(record.pricing)
+	};
+}
+
+function buildDefaultCatalog(): ChatModelEntry[] {
+	const entries: ChatModelEntry[] = [];
+	for (const provider of listEnabledProviders()) {
+		const model = getProviderDefaultModel(provider.id);
+		if (!model) {
+			continue;
+		}
+
+		entries.push({
+			id: provider.id,
+			displayName: provider.label,
+			provider: provider.id,
+			model,
+			contextLength: getDefaultContextLength(),
+			capabilities: { ...provider.capabilities },
+			roles: [...ALL_ROLES],
+			pricing: null
+		});
+	}
+	return entries;
+}
+
+export function getModelCatalog(): ChatModelEntry[] {
+	const rawValue = typeof env.CHAT_MODEL_CATALOG === 'string' ? env.CHAT_MODEL_CATALOG.trim() : '';
+	if (!rawValue) {
+		return buildDefaultCatalog();
+	}
+
+	let payload: unknown;
+	try {
+		payload = JSON.parse(rawValue);
+	} catch {
+		console.error('CHAT_MODEL_CATALOG is not valid JSON. Falling back to provider defaults.');
+		return buildDefaultCatalog();
+	}
+
+	if (!Array.isArray(payload)) {
+		console.error('CHAT_MODEL_CATALOG must be a JSON array. Falling back to provider defaults.');
+		return buildDefaultCatalog();
+	}
+
+	const providers = new Map(listEnabledProviders().map((provider) => [provider.id, provider.capabilities]));
+	const seen = new Set<string>();
+	const entries: ChatModelEntry[] = [];
+	for (const item of payload) {
+		const entry = parseCatalogEntry(item, providers);
+		if (!entry || seen.has(entry.id)) {
+			continue;
+		}
+		seen.add(entry.id);
+		entries.push(entry);
+	}
+	return entries;
+}
+
+export function getDefaultContextLength(): number {
+	return parseContextLength(env.CHAT_CONTEXT_LENGTH, DEFAULT_CONTEXT_LENGTH);
+}
+
+export function listModelsForRole(role: UserRole): ChatModelEntry[] {
+	return getModelCatalog().filter((entry) => entry.roles.includes(role));
+}
+
+export function findModel(modelId: string): ChatModelEntry | null {
+	return getModelCatalog().find((entry) => entry.id === modelId) ?? null;
+}
+
+export function findModelPricing(provider: string, model: string | null): ModelPricing | null {
+	if (!model) {
+		return null;
+	}
+	return getModelCatalog().find((entry) => entry.provider === provider && entry.model === model)?.pricing ?? null;
+}
+
+export function canUseModel(entry: ChatModelEntry, role: UserRole): boolean {
+	return entry.roles.includes(role);
+}
@@ -0,0 +1,363 @@
+import type {
+	ChatCompletionDeltaHandler,
+	ChatCompletionMessage,
+	ChatProviderAdapter,
+	ProviderCompletion,
+	ProviderCompletionRequest,
+	ProviderConfig,
+	ProviderUsage
+} from './types';
+import {
+	createResponseError,
+	getSystemPrompt,
+	linkAbortSignal,
+	normalizeOptionalText,
+	parseJsonSafe,
+	parseTimeoutMs,
+	ProviderRequestError,
+	readResponseText,
+	readServerSentEvents,
+	readUsage,
+	toErrorMessage,
+	withNoTrailingSlash
+} from './shared';
+
+type AnthropicRole = 'user' | 'assistant';
+
+interface AnthropicTextBlock {
+	type: 'text';
+	text: string;
+}
+
+interface AnthropicMessage {
+	role: AnthropicRole;
+	content: AnthropicTextBlock[];
+}
+
+interface AnthropicRequestPayload {
+	system: string;
+	messages: AnthropicMessage[];
+}
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const DEFAULT_MODEL = 'claude-sonnet-4-5';
+const DEFAULT_MAX_TOKENS = 4_096;
+const DEFAULT_THINKING_BUDGET = 2_048;
+const DEFAULT_TIMEOUT_MS = 120_000;
+const MIN_THINKING_BUDGET = 1_024;
+const ANTHROPIC_VERSION = '2023-06-01';
+
+function parsePositiveInteger(value: string | undefined, fallback: number): number {
+	const parsed = Number(value);
+	return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : fallback;
+}
+
+function toAnthropicPayload(messages: ChatCompletionMessage[]): AnthropicRequestPayload {
+	const systemSections: string[] = [];
+	const turns: AnthropicMessage[] = [];
+
+	for (const message of messages) {
+		const content = message.content.trim();
+		if (!content) {
+			continue;
+		}
+
+		if (message.role === 'system') {
+			systemSections.push(content);
+			continue;
+		}
+		if (message.role === 'tool') {
+			continue;
+		}
+
+		// The Messages API rejects consecutive turns from the same role, so merge them into one turn.
+		const previous = turns[turns.length - 1];
+		if (previous && previous.role === message.role) {
+			previous.content.push({ type: 'text', text: content });
+			continue;
+		}
+
+		turns.push({ role: message.role, content: [{ type: 'text', text: content }] });
+	}
+
+	if (turns.length === 0 || turns[0].role !== 'user') {
+		turns.unshift({ role: 'user', content: [{ type: 'text', text: 'Hello' }] });
+	}
+
+	return {
+		system: systemSections.length > 0 ? systemSections.join('\n\n') : getSystemPrompt(),
+		messages: turns
+	};
+}
+
+function readAnthropicError(payload: unknown): string | null {
+	if (!payload || typeof payload !== 'object') {
+		return null;
+	}
+
+	const errorNode = (payload as Record<string, unknown>).error;
+	if (!errorNode || typeof errorNode !== 'object') {
+		return null;
+	}
+
+	const errorRecord = errorNode as Record<string, unknown>;
+	const message = normalizeOptionalText(errorRecord.message) ?? 'Provider returned an error.';
+	const type = normalizeOptionalText(errorRecord.type);
+	return type ? `${message} | ${type}` : message;
+}
+
+function readContentBlocks(payload: unknown): { text: string; thinking: string } {
+	if (!payload || typeof payload !== 'object') {
+		return { text: '', thinking: '' };
+	}
+
+	const content = (payload as Record<string, unknown>).content;
+	if (!Array.isArray(content)) {
+		return { text: '', thinking: '' };
+	}
+
+	let text = '';
+	let thinking = '';
+	for (const block of content) {
+		if (!block || typeof block !== 'object') {
+			continue;
+		}
+
+		const record = block as Record<string, unknown>;
+		if (record.type === 'text' && typeof record.text === 'string') {
+			text += record.text;
+		} else if (record.type === 'thinking' && typeof record.thinking === 'string') {
+			thinking += record.thinking;
+		}
+	}
+
+	return { text, thinking };
+}
+
+function readStopReason(payload: unknown): string | null {
+	if (!payload || typeof payload !== 'object') {
+		return null;
+	}
+	return normalizeOptionalText((payload as Record<string, unknown>).stop_reason);
+}
+
+function describeEmptyCompletion(model: string, stopReason: string | null): string {
+	if (stopReason === 'max_tokens') {
+		return `Anthropic hit max_tokens before producing any text for model "${model}".`;
+	}
+	if (stopReason === 'refusal') {
+		return `Anthropic declined to answer for model "${model}".`;
+	}
+	return `Anthropic returned an empty completion for model "${model}".`;
+}
+
+async function readAnthropicStream(
+	response: Response,
+	model: string,
+	onDelta: ChatCompletionDeltaHandler,
+	onReasoningDelta: ChatCompletionDeltaHandler | undefined,
+	idleTimeoutMs: number
+): Promise<{ text: string; thinking: string; stopReason: string | null; usage: ProviderUsage | null }> {
+	let text = '';
+	let thinking = '';
+	let stopReason: string | null = null;
+	let promptTokens = 0;
+	let completionTokens = 0;
+	let sawUsage = false;
+
+	await readServerSentEvents(response, `Anthropic model "${model}"`, (data) => {
+		const payload = parseJsonSafe(data);
+		if (!payload || typeof payload !== 'object') {
+			return;
+		}
+
+		const record = payload as Record<string, unknown>;
+		if (record.type === 'error') {
+			throw new Error(`Anthropic stream error for model "${model}": ${readAnthropicError(record)}`);
+		}
+
+		if (record.type === 'content_block_delta') {
+			const delta = record.delta as Record<string, unknown> | undefined;
+			if (delta?.type === 'text_delta' && typeof delta.text === 'string' && delta.text) {
+				text += delta.text;
+				onDelta(delta.text);
+			} else if (delta?.type === 'thinking_delta' && typeof delta.thinking === 'string' && delta.thinking) {
+				thinking += delta.thinking;
+				onReasoningDelta?.(delta.thinking);
+			}
+			return;
+		}
+
+		// Input tokens are reported on message_start, output tokens on the closing message_delta.
+		if (record.type === 'message_start') {
+			const usage = readUsage(record.message, 'input_tokens', 'output_tokens');
+			if (usage) {
+				sawUsage = true;
+				promptTokens = usage.promptTokens;
+				completionTokens = usage.completionTokens;
+			}
+			return;
+		}
+
+		if (record.type === 'message_delta') {
+			stopReason = readStopReason(record.delta) ?? stopReason;
+			const usage = readUsage(record, 'input_tokens', 'output_tokens');
+			if (usage) {
+				sawUsage = true;
+				promptTokens = usage.promptTokens || promptTokens;
+				completionTokens = usage.completionTokens || completionTokens;
+			}
+			return;
+		}
+
+		return record.type === 'message_stop';
+	}, idleTimeoutMs);
+
+	return { text, thinking, stopReason, usage: sawUsage ? { promptTokens, completionTokens } : null };
+}
+
+async function callAnthropic(
+	{ messages, reasoningEnabled, model: requestedModel, onDelta, onReasoningDelta, signal }: ProviderCompletionRequest,
+	config: ProviderConfig
+): Promise<ProviderCompletion> {
+	const apiKey = config.apiKey;
+	if (!apiKey) {
+		throw new Error('Missing ANTHROPIC_API_KEY.');
+	}
+
+	const baseUrl = withNoTrailingSlash(config.baseUrl || DEFAULT_BASE_URL);
+	const model = requestedModel || config.model || DEFAULT_MODEL;
+	const timeoutMs = parseTimeoutMs(config.timeoutMs, DEFAULT_TIMEOUT_MS);
+	const thinkingBudget = Math.max(
+		parsePositiveInteger(config.thinkingBudget, DEFAULT_THINKING_BUDGET),
+		MIN_THINKING_BUDGET
+	);
+	let maxTokens = parsePositiveInteger(config.maxTokens, DEFAULT_MAX_TOKENS);
+
+	const { system, messages: turns } = toAnthropicPayload(messages);
+	const requestBody: Record<string, unknown> = {
+		model,
+		system,
+		messages: turns
+	};
+	if (reasoningEnabled) {
+		// max_tokens has to leave room for the answer on top of the thinking budget.
+		maxTokens = Math.max(maxTokens, thinkingBudget + MIN_THINKING_BUDGET);
+		requestBody.thinking = { type: 'enabled', budget_tokens: thinkingBudget };
+	}
+	requestBody.max_tokens = maxTokens;
+	if (onDelta) {
+		requestBody.stream = true;
+	}
+
+	const controller = new AbortController();
+	const unlinkAbort = linkAbortSignal(controller, signal);
+	const timeoutHandle = setTimeout(() => {
+		controller.abort();
+	}, timeoutMs);
+	const describeAbort = () =>
+		signal?.aborted
+			? new Error(`Anthropic request was cancelled for model "${model}".`)
+			: new ProviderRequestError(`Anthropic timed out after ${timeoutMs}ms for model "${model}".`, {
+					retryable: true
+				});
+	try {
+		let response: Response;
+		try {
+			response = await fetch(`${baseUrl}/v1/messages`, {
+				method: 'POST',
+				signal: controller.signal,
+				headers: {
+					'x-api-key': apiKey,
+					'anthropic-version': ANTHROPIC_VERSION,
+					'Content-Type': 'application/json'
+				},
+				body: JSON.stringify(requestBody)
+			});
+		} catch (error) {
+			if (signal?.aborted || (error instanceof Error && error.name === 'AbortError')) {
+				throw describeAbort();
+			}
+			throw new ProviderRequestError(`Anthropic request failed for model "${model}": ${toErrorMessage(error)}`, {
+				retryable: true
+			});
+		}
+
+		if (onDelta && response.ok) {
+			// A stream is bounded by its idle timeout instead of the whole request deadline.
+			clearTimeout(timeoutHandle);
+			const streamed = await readAnthropicStream(response, model, onDelta, onReasoningDelta, timeoutMs);
+			const reply = streamed.text.trim();
+			if (!reply) {
+				throw new Error(describeEmptyCompletion(model, streamed.stopReason));
+			}
+			return {
+				reply,
+				reasoning: streamed.thinking.trim(),
+				model,
+				usage: streamed.usage,
+				finishReason: streamed.stopReason
+			};
+		}
+
+		const rawBody = await readResponseText(response, describeAbort);
+		const payload = rawBody ? parseJsonSafe(rawBody) : null;
+
+		if (!response.ok) {
+			const details = readAnthropicError(payload) ?? (rawBody.trim() || 'No response body.');
+			throw createResponseError(`Anthropic error (${response.status}) for model "${model}": ${details}`, response);
+		}
+
+		const { text, thinking } = readContentBlocks(payload);
+		const reply = text.trim();
+		if (!reply) {
+			throw new Error(describeEmptyCompletion(model, readStopReason(payload)));
+		}
+
+		return {
+			reply,
+			reasoning: thinking.trim(),
+			model,
+			usage: readUsage(payload, 'input_tokens', 'output_tokens'),
+			finishReason: readStopReason(payload)
+		};
+	} finally {
+		clearTimeout(timeoutHandle);
+		unlinkAbort();
+	}
+}
+
+export const anthropicProvider: ChatProviderAdapter = {
+	id: 'anthropic',
+	label: 'Anthropic',
+	capabilities: {
+		streaming: true,
+		reasoning: true,
+		vision: true,
+		tools: false
+	},
+	configSchema: [
+		{ key: 'apiKey', env: 'ANTHROPIC_API_KEY', required: true, description: 'Anthropic API key.' },
+		{ key: 'model', env: 'ANTHROPIC_MODEL', defaultValue: DEFAULT_MODEL, description: 'Model id.' },
+		{
+			key: 'baseUrl',
+			env: 'ANTHROPIC_BASE_URL',
+			defaultValue: DEFAULT_BASE_URL,
+			description: 'API base URL without the /v1 suffix.'
+		},
+		{
+			key: 'maxTokens',
+			env: 'ANTHROPIC_MAX_TOKENS',
+			defaultValue: String(DEFAULT_MAX_TOKENS),
+			description: 'max_tokens sent with every request.'
+		},
+		{
+			key: 'thinkingBudget',
+			env: 'ANTHROPIC_THINKING_BUDGET',
+			defaultValue: String(DEFAULT_THINKING_BUDGET),
+			description: 'budget_tokens used when reasoning is enabled.'
+		},
+		{ key: 'timeoutMs', env: 'ANTHROPIC_TIMEOUT_MS', description: 'Per-request timeout in milliseconds.' }
+	],
+	complete: callAnthropic
+};
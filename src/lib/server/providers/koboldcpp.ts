@@ -0,0 +1,114 @@
+import type {
+	ChatProviderAdapter,
+	ProviderCompletion,
+	ProviderCompletionRequest,
+	ProviderConfig
+} from './types';
+import {
+	createResponseError,
+	ensureTextResponse,
+	linkAbortSignal,
+	parseTimeoutMs,
+	ProviderRequestError,
+	readFinishReason,
+	readResponseText,
+	readStreamedCompletion,
+	readUsage,
+	toErrorMessage,
+	toOpenAIMessages,
+	withNoTrailingSlash
+} from './shared';
+
+const DEFAULT_URL = 'http://127.0.0.1:5001';
+const DEFAULT_MODEL = 'koboldcpp';
+const DEFAULT_TIMEOUT_MS = 120_000;
+
+async function callKoboldCpp(
+	{ messages, model: requestedModel, onDelta, signal }: ProviderCompletionRequest,
+	config: ProviderConfig
+): Promise<ProviderCompletion> {
+	const baseUrl = withNoTrailingSlash(config.url || DEFAULT_URL);
+	const model = requestedModel || config.model || DEFAULT_MODEL;
+	const timeoutMs = parseTimeoutMs(config.timeoutMs, DEFAULT_TIMEOUT_MS);
+
+	const requestBody: Record<string, unknown> = {
+		model,
+		messages: toOpenAIMessages(messages)
+	};
+	if (onDelta) {
+		requestBody.stream = true;
+	}
+
+	const controller = new AbortController();
+	const unlinkAbort = linkAbortSignal(controller, signal);
+	const timeoutHandle = setTimeout(() => {
+		controller.abort();
+	}, timeoutMs);
+	const describeAbort = () =>
+		signal?.aborted
+			? new Error('KoboldCpp request was cancelled.')
+			: new ProviderRequestError(`KoboldCpp timed out after ${timeoutMs}ms.`, { retryable: true });
+	try {
+		let response: Response;
+		try {
+			response = await fetch(`${baseUrl}/v1/chat/completions`, {
+				method: 'POST',
+				signal: controller.signal,
+				headers: {
+					'Content-Type': 'application/json'
+				},
+				body: JSON.stringify(requestBody)
+			});
+		} catch (error) {
+			if (signal?.aborted || (error instanceof Error && error.name === 'AbortError')) {
+				throw describeAbort();
+			}
+			throw new ProviderRequestError(`KoboldCpp request failed: ${toErrorMessage(error)}`, { retryable: true });
+		}
+
+		if (!response.ok) {
+			const details = await readResponseText(response, describeAbort);
+			throw createResponseError(`KoboldCpp error (${response.status}): ${details}`, response);
+		}
+
+		if (onDelta) {
+			// A stream is bounded by its idle timeout instead of the whole request deadline.
+			clearTimeout(timeoutHandle);
+			const streamed = await readStreamedCompletion(response, onDelta, 'KoboldCpp', {
+				idleTimeoutMs: timeoutMs
+			});
+			if (!streamed.content) {
+				throw new Error('KoboldCpp returned an empty completion.');
+			}
+			return { reply: streamed.content, model, usage: streamed.usage, finishReason: streamed.finishReason };
+		}
+
+		const payload = JSON.parse(await readResponseText(response, describeAbort)) as unknown;
+		const reply = ensureTextResponse(payload);
+		if (!reply) {
+			throw new Error('KoboldCpp returned an empty completion.');
+		}
+
+		return { reply, model, usage: readUsage(payload), finishReason: readFinishReason(payload) };
+	} finally {
+		clearTimeout(timeoutHandle);
+		unlinkAbort();
+	}
+}
+
+export const koboldCppProvider: ChatProviderAdapter = {
+	id: 'koboldcpp',
+	label: 'KoboldCpp',
+	capabilities: {
+		streaming: true,
+		reasoning: false,
+		vision: false,
+		tools: false
+	},
+	configSchema: [
+		{ key: 'url', env: 'KOBOLDCPP_URL', defaultValue: DEFAULT_URL, description: 'KoboldCpp server base URL.' },
+		{ key: 'model', env: 'KOBOLDCPP_MODEL', defaultValue: DEFAULT_MODEL, description: 'Model name sent upstream.' },
+		{ key: 'timeoutMs', env: 'KOBOLDCPP_TIMEOUT_MS', description: 'Per-request timeout in milliseconds.' }
+	],
+	complete: callKoboldCpp
+};
@@ -0,0 +1,267 @@
+import type {
+	ChatProviderAdapter,
+	ChatProviderCapabilities,
+	ProviderCompletion,
+	ProviderCompletionRequest,
+	ProviderConfig
+} from './types';
+import {
+	createResponseError,
+	ensureTextResponse,
+	linkAbortSignal,
+	normalizeOptionalText,
+	parseJsonSafe,
+	parseTimeoutMs,
+	ProviderRequestError,
+	readFinishReason,
+	readOpenRouterError,
+	readResponseReasoning,
+	readResponseText,
+	readResponseToolCalls,
+	readStreamedCompletion,
+	readUsage,
+	toErrorMessage,
+	toOpenAIMessages,
+	toOpenAITools,
+	withNoTrailingSlash
+} from './shared';
+
+export interface OpenAICompatibleProviderDefinition {
+	id: string;
+	name: string;
+	baseUrl: string;
+	apiKey: string | null;
+	model: string;
+	timeoutMs: number | null;
+	headers: Record<string, string>;
+	capabilities: Partial<ChatProviderCapabilities>;
+}
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+const PROVIDER_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/;
+
+function parseHeaders(value: unknown): Record<string, string> {
+	if (!value || typeof value !== 'object' || Array.isArray(value)) {
+		return {};
+	}
+
+	const headers: Record<string, string> = {};
+	for (const [key, headerValue] of Object.entries(value as Record<string, unknown>)) {
+		const name = key.trim();
+		if (name && typeof headerValue === 'string') {
+			headers[name] = headerValue;
+		}
+	}
+	return headers;
+}
+
+function parseCapabilities(value: unknown): Partial<ChatProviderCapabilities> {
+	if (!value || typeof value !== 'object') {
+		return {};
+	}
+
+	const record = value as Record<string, unknown>;
+	const capabilities: Partial<ChatProviderCapabilities> = {};
+	for (const key of ['streaming', 'reasoning', 'vision', 'tools'] as const) {
+		if (typeof record[key] === 'boolean') {
+			capabilities[key] = record[key];
+		}
+	}
+	return capabilities;
+}
+
+function parseDefinition(value: unknown): OpenAICompatibleProviderDefinition | null {
+	if (!value || typeof value !== 'object') {
+		return null;
+	}
+
+	const record = value as Record<string, unknown>;
+	const id = normalizeOptionalText(record.id)?.toLowerCase() ?? null;
+	const baseUrl = normalizeOptionalText(record.baseUrl);
+	const model = normalizeOptionalText(record.model);
+	if (!id || !PROVIDER_ID_PATTERN.test(id) || !baseUrl || !model) {
+		return null;
+	}
+
+	const rawTimeout = typeof record.timeoutMs === 'number' ? record.timeoutMs : Number(record.timeoutMs);
+
+	return {
+		id,
+		name: normalizeOptionalText(record.name) ?? id,
+		baseUrl: withNoTrailingSlash(baseUrl),
+		apiKey: normalizeOptionalText(record.apiKey),
+		model,
+		timeoutMs: Number.isFinite(rawTimeout) && rawTimeout > 0 ? rawTimeout : null,
+		headers: parseHeaders(record.headers),
+		capabilities: parseCapabilities(record.capabilities)
+	};
+}
+
+export function parseOpenAICompatibleDefinitions(rawValue: string | undefined): OpenAICompatibleProviderDefinition[] {
+	const trimmed = typeof rawValue === 'string' ? rawValue.trim() : '';
+	if (!trimmed) {
+		return [];
+	}
+
+	const payload = parseJsonSafe(trimmed);
+	if (!Array.isArray(payload)) {
+		console.error('OPENAI_COMPATIBLE_PROVIDERS must be a JSON array.');
+		return [];
+	}
+
+	const definitions: OpenAICompatibleProviderDefinition[] = [];
+	payload.forEach((entry, index) => {
+		const definition = parseDefinition(entry);
+		if (!definition) {
+			console.error(`Skipping OPENAI_COMPATIBLE_PROVIDERS[${index}]: id, baseUrl and model are required.`);
+			return;
+		}
+		definitions.push(definition);
+	});
+	return definitions;
+}
+
+export function createOpenAICompatibleProvider(
+	definition: OpenAICompatibleProviderDefinition
+): ChatProviderAdapter {
+	const label = definition.name;
+
+	const complete = async (
+		{ messages, model: requestedModel, tools, onDelta, onReasoningDelta, signal }: ProviderCompletionRequest,
+		config: ProviderConfig
+	): Promise<ProviderCompletion> => {
+		const baseUrl = withNoTrailingSlash(config.baseUrl || definition.baseUrl);
+		const model = requestedModel || config.model || definition.model;
+		const timeoutMs = parseTimeoutMs(config.timeoutMs, DEFAULT_TIMEOUT_MS);
+
+		const headers: Record<string, string> = {
+			...definition.headers,
+			'Content-Type': 'application/json'
+		};
+		if (config.apiKey) {
+			headers.Authorization = `Bearer ${config.apiKey}`;
+		}
+
+		const requestBody: Record<string, unknown> = {
+			model,
+			messages: toOpenAIMessages(messages)
+		};
+		if (tools?.length) {
+			requestBody.tools = toOpenAITools(tools);
+		}
+		if (onDelta) {
+			requestBody.stream = true;
+			requestBody.stream_options = { include_usage: true };
+		}
+
+		const controller = new AbortController();
+		const unlinkAbort = linkAbortSignal(controller, signal);
+		const timeoutHandle = setTimeout(() => {
+			controller.abort();
+		}, timeoutMs);
+		const describeAbort = () =>
+			signal?.aborted
+				? new Error(`${label} request was cancelled for model "${model}".`)
+				: new ProviderRequestError(`${label} timed out after ${timeoutMs}ms for model "${model}".`, {
+						retryable: true
+					});
+		try {
+			let response: Response;
+			try {
+				response = await fetch(`${baseUrl}/chat/completions`, {
+					method: 'POST',
+					signal: controller.signal,
+					headers,
+					body: JSON.stringify(requestBody)
+				});
+			} catch (error) {
+				if (signal?.aborted || (error instanceof Error && error.name === 'AbortError')) {
+					throw describeAbort();
+				}
+				throw new ProviderRequestError(`${label} request failed for model "${model}": ${toErrorMessage(error)}`, {
+					retryable: true
+				});
+			}
+
+			if (onDelta && response.ok) {
+				// A stream is bounded by its idle timeout instead of the whole request deadline.
+				clearTimeout(timeoutHandle);
+				const streamed = await readStreamedCompletion(
+					response,
+					onDelta,
+					`${label} model "${model}"`,
+					{ onReasoningDelta, idleTimeoutMs: timeoutMs }
+				);
+				if (!streamed.content && streamed.toolCalls.length === 0) {
+					throw new Error(`${label} returned an empty completion for model "${model}".`);
+				}
+				return {
+					reply: streamed.content,
+					reasoning: streamed.reasoning,
+					toolCalls: streamed.toolCalls,
+					model,
+					usage: streamed.usage,
+					finishReason: streamed.finishReason
+				};
+			}
+
+			const rawBody = await readResponseText(response, describeAbort);
+			const payload = rawBody ? parseJsonSafe(rawBody) : null;
+			const providerError = readOpenRouterError(payload);
+
+			if (!response.ok) {
+				const details = providerError ?? (rawBody.trim() || 'No response body.');
+				throw createResponseError(`${label} error (${response.status}) for model "${model}": ${details}`, response);
+			}
+
+			if (providerError) {
+				throw new Error(`${label} provider error for model "${model}": ${providerError}`);
+			}
+
+			const reply = ensureTextResponse(payload);
+			const toolCalls = readResponseToolCalls(payload);
+			if (!reply && toolCalls.length === 0) {
+				throw new Error(`${label} returned an empty completion for model "${model}".`);
+			}
+
+			return {
+				reply,
+				reasoning: readResponseReasoning(payload),
+				toolCalls,
+				model,
+				usage: readUsage(payload),
+				finishReason: readFinishReason(payload)
+			};
+		} finally {
+			clearTimeout(timeoutHandle);
+			unlinkAbort();
+		}
+	};
+
+	return {
+		id: definition.id,
+		label,
+		capabilities: {
+			streaming: definition.capabilities.streaming ?? true,
+			reasoning: definition.capabilities.reasoning ?? false,
+			vision: definition.capabilities.vision ?? false,
+			tools: definition.capabilities.tools ?? false
+		},
+		configSchema: [
+			{
+				key: 'baseUrl',
+				required: true,
+				defaultValue: definition.baseUrl,
+				description: 'Base URL including the API version path, e.g. http://127.0.0.1:11434/v1.'
+			},
+			{ key: 'apiKey', defaultValue: definition.apiKey ?? undefined, description: 'Optional bearer token.' },
+			{ key: 'model', required: true, defaultValue: definition.model, description: 'Default model id.' },
+			{
+				key: 'timeoutMs',
+				defaultValue: definition.timeoutMs !== null ? String(definition.timeoutMs) : undefined,
+				description: 'Per-request timeout in milliseconds.'
+			}
+		],
+		complete
+	};
+}
@@ -0,0 +1,227 @@
+import type {
+	ChatProviderAdapter,
+	ProviderCompletion,
+	ProviderCompletionRequest,
+	ProviderConfig
+} from './types';
+import {
+	createResponseError,
+	ensureTextResponse,
+	linkAbortSignal,
+	parseJsonSafe,
+	parseTimeoutMs,
+	ProviderRequestError,
+	readFinishReason,
+	readOpenRouterError,
+	readResponseReasoning,
+	readResponseText,
+	readResponseToolCalls,
+	readStreamedCompletion,
+	readUsage,
+	toErrorMessage,
+	toOpenAIMessages,
+	toOpenAITools
+} from './shared';
+
+const DEFAULT_MODEL = 'deepseek/deepseek-chat';
+const DEFAULT_SITE_URL = 'http://localhost:5173';
+const DEFAULT_APP_NAME = 'Raven';
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+async function callOpenRouter(
+	{ messages, reasoningEnabled, model: requestedModel, tools, onDelta, onReasoningDelta, signal }: ProviderCompletionRequest,
+	config: ProviderConfig
+): Promise<ProviderCompletion> {
+	const apiKey = config.apiKey;
+	if (!apiKey) {
+		throw new Error('Missing OPENROUTER_API_KEY.');
+	}
+
+	const model = requestedModel || config.model || DEFAULT_MODEL;
+	const fallbackModel = config.fallbackModel ?? '';
+	const siteUrl = config.siteUrl || DEFAULT_SITE_URL;
+	const appName = config.appName || DEFAULT_APP_NAME;
+	const timeoutMs = parseTimeoutMs(config.timeoutMs, DEFAULT_TIMEOUT_MS);
+	let streamedAnyDelta = false;
+	const forwardDelta = onDelta
+		? (delta: string) => {
+				streamedAnyDelta = true;
+				onDelta(delta);
+			}
+		: undefined;
+
+	const forwardReasoningDelta = onReasoningDelta
+		? (delta: string) => {
+				streamedAnyDelta = true;
+				onReasoningDelta(delta);
+			}
+		: undefined;
+
+	const sendRequest = async (modelId: string, controller: AbortController): Promise<ProviderCompletion> => {
+		const timeoutHandle = setTimeout(() => {
+			controller.abort();
+		}, timeoutMs);
+
+		const describeAbort = () =>
+			signal?.aborted
+				? new Error(`OpenRouter request was cancelled for model "${modelId}".`)
+				: new ProviderRequestError(`OpenRouter timed out after ${timeoutMs}ms for model "${modelId}".`, {
+						retryable: true
+					});
+
+		try {
+			let response: Response;
+			try {
+				const requestBody: Record<string, unknown> = {
+					model: modelId,
+					messages: toOpenAIMessages(messages)
+				};
+				if (tools?.length) {
+					requestBody.tools = toOpenAITools(tools);
+				}
+				if (reasoningEnabled) {
+					requestBody.reasoning = { enabled: true };
+				}
+				if (forwardDelta) {
+					requestBody.stream = true;
+					requestBody.usage = { include: true };
+				}
+
+				response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
+					method: 'POST',
+					signal: controller.signal,
+					headers: {
+						Authorization: `Bearer ${apiKey}`,
+						'Content-Type': 'application/json',
+						'HTTP-Referer': siteUrl,
+						'X-Title': appName
+					},
+					body: JSON.stringify(requestBody)
+				});
+			} catch (error) {
+				if (signal?.aborted || (error instanceof Error && error.name === 'AbortError')) {
+					throw describeAbort();
+				}
+				throw new ProviderRequestError(
+					`OpenRouter request failed for model "${modelId}": ${toErrorMessage(error)}`,
+					{ retryable: true }
+				);
+			}
+
+			if (forwardDelta && response.ok) {
+				// A stream is bounded by its idle timeout instead of the whole request deadline.
+				clearTimeout(timeoutHandle);
+				const streamed = await readStreamedCompletion(
+					response,
+					forwardDelta,
+					`OpenRouter model "${modelId}"`,
+					{ onReasoningDelta: forwardReasoningDelta, idleTimeoutMs: timeoutMs }
+				);
+				if (!streamed.content && streamed.toolCalls.length === 0) {
+					throw new Error(`OpenRouter returned an empty completion for model "${modelId}".`);
+				}
+				return {
+					reply: streamed.content,
+					reasoning: streamed.reasoning,
+					toolCalls: streamed.toolCalls,
+					model: modelId,
+					usage: streamed.usage,
+					finishReason: streamed.finishReason
+				};
+			}
+
+			const rawBody = await readResponseText(response, describeAbort);
+			const payload = rawBody ? parseJsonSafe(rawBody) : null;
+			const providerError = readOpenRouterError(payload);
+
+			if (!response.ok) {
+				const details = providerError ?? (rawBody.trim() || 'No response body.');
+				throw createResponseError(`OpenRouter error (${response.status}) for model "${modelId}": ${details}`, response);
+			}
+
+			if (providerError) {
+				throw new Error(`OpenRouter provider error for model "${modelId}": ${providerError}`);
+			}
+
+			const reply = ensureTextResponse(payload);
+			const toolCalls = readResponseToolCalls(payload);
+			if (!reply && toolCalls.length === 0) {
+				throw new Error(`OpenRouter returned an empty completion for model "${modelId}".`);
+			}
+
+			return {
+				reply,
+				reasoning: readResponseReasoning(payload),
+				toolCalls,
+				model: modelId,
+				usage: readUsage(payload),
+				finishReason: readFinishReason(payload)
+			};
+		} finally {
+			clearTimeout(timeoutHandle);
+		}
+	};
+
+	const requestOnce = async (modelId: string): Promise<ProviderCompletion> => {
+		const controller = new AbortController();
+		const unlinkAbort = linkAbortSignal(controller, signal);
+		try {
+			return await sendRequest(modelId, controller);
+		} finally {
+			unlinkAbort();
+		}
+	};
+
+	try {
+		return await requestOnce(model);
+	} catch (primaryError) {
+		// Once deltas have reached the caller, replaying on another model would duplicate output.
+		if (!fallbackModel || fallbackModel === model || streamedAnyDelta || signal?.aborted) {
+			throw primaryError;
+		}
+
+		try {
+			return { ...(await requestOnce(fallbackModel)), usedFallback: true };
+		} catch (fallbackError) {
+			const message = `OpenRouter primary model "${model}" failed: ${toErrorMessage(primaryError)} Fallback model "${fallbackModel}" failed: ${toErrorMessage(fallbackError)}`;
+			if (fallbackError instanceof ProviderRequestError) {
+				throw new ProviderRequestError(message, fallbackError);
+			}
+			throw new Error(message);
+		}
+	}
+}
+
+export const openRouterProvider: ChatProviderAdapter = {
+	id: 'openrouter',
+	label: 'OpenRouter',
+	capabilities: {
+		streaming: true,
+		reasoning: true,
+		vision: true,
+		tools: true
+	},
+	configSchema: [
+		{ key: 'apiKey', env: 'OPENROUTER_API_KEY', required: true, description: 'OpenRouter API key.' },
+		{ key: 'model', env: 'OPENROUTER_MODEL', defaultValue: DEFAULT_MODEL, description: 'Primary model id.' },
+		{
+			key: 'fallbackModel',
+			env: 'OPENROUTER_FALLBACK_MODEL',
+			description: 'Model retried once when the primary model fails.'
+		},
+		{
+			key: 'siteUrl',
+			env: 'OPENROUTER_SITE_URL',
+			defaultValue: DEFAULT_SITE_URL,
+			description: 'Sent as HTTP-Referer for OpenRouter app attribution.'
+		},
+		{
+			key: 'appName',
+			env: 'OPENROUTER_APP_NAME',
+			defaultValue: DEFAULT_APP_NAME,
+			description: 'Sent as X-Title for OpenRouter app attribution.'
+		},
+		{ key: 'timeoutMs', env: 'OPENROUTER_TIMEOUT_MS', description: 'Per-request timeout in milliseconds.' }
+	],
+	complete: callOpenRouter
+};
@@ -0,0 +1,638 @@
+import { env } from '$env/dynamic/private';
+import type {
+	ChatCompletionDeltaHandler,
+	ChatCompletionMessage,
+	ChatToolCall,
+	ChatToolDefinition,
+	ProviderUsage
+} from './types';
+
+const DEFAULT_SYSTEM_PROMPT =
+	'You are a helpful assistant. Give concise, useful answers. Do not output chain-of-thought, internal reasoning, or tags like <think>...</think>. Provide only the final answer.';
+
+export function getSystemPrompt(): string {
+	const customPrompt = typeof env.CHAT_SYSTEM_PROMPT === 'string' ? env.CHAT_SYSTEM_PROMPT.trim() : '';
+	return customPrompt.length > 0 ? customPrompt : DEFAULT_SYSTEM_PROMPT;
+}
+
+export interface ProviderRequestErrorDetails {
+	status?: number | null;
+	retryAfterMs?: number | null;
+	retryable: boolean;
+}
+
+export class ProviderRequestError extends Error {
+	readonly status: number | null;
+	readonly retryAfterMs: number | null;
+	readonly retryable: boolean;
+
+	constructor(message: string, details: ProviderRequestErrorDetails) {
+		super(message);
+		this.name = 'ProviderRequestError';
+		this.status = details.status ?? null;
+		this.retryAfterMs = details.retryAfterMs ?? null;
+		this.retryable = details.retryable;
+	}
+}
+
+export function isRetryableStatus(status: number): boolean {
+	return status === 408 || status === 425 || status === 429 || status >= 500;
+}
+
+export function parseRetryAfterMs(value: string | null): number | null {
+	const trimmed = value?.trim() ?? '';
+	if (!trimmed) {
+		return null;
+	}
+
+	const seconds = Number(trimmed);
+	if (Number.isFinite(seconds)) {
+		return seconds >= 0 ? Math.round(seconds * 1_000) : null;
+	}
+
+	const date = Date.parse(trimmed);
+	return Number.isFinite(date) ? Math.max(date - Date.now(), 0) : null;
+}
+
+export function createResponseError(message: string, response: Response): ProviderRequestError {
+	return new ProviderRequestError(message, {
+		status: response.status,
+		retryAfterMs: parseRetryAfterMs(response.headers.get('retry-after')),
+		retryable: isRetryableStatus(response.status)
+	});
+}
+
+export interface ThinkTagSplitter {
+	push(delta: string): void;
+	flush(): void;
+}
+
+const THINK_TAG_PATTERN = /<(\/)?think(?:ing)?\b[^>]*>/i;
+const THINK_TAG_PREFIXES = ['<think', '</think'];
+
+function isPartialThinkTag(tail: string): boolean {
+	if (tail.includes('>')) {
+		return false;
+	}
+
+	const lower = tail.toLowerCase();
+	return THINK_TAG_PREFIXES.some((prefix) => prefix.startsWith(lower) || lower.startsWith(prefix));
+}
+
+// Routes text inside <think>/<thinking> tags to onReasoning and everything else to onContent,
+// holding back a trailing "<" until it is clear whether it starts a tag.
+export function createThinkTagSplitter(
+	onContent: ChatCompletionDeltaHandler,
+	onReasoning: ChatCompletionDeltaHandler
+): ThinkTagSplitter {
+	let buffer = '';
+	let inThink = false;
+	let contentStarted = false;
+	let reasoningStarted = false;
+
+	const emit = (text: string) => {
+		if (inThink) {
+			const value = reasoningStarted ? text : text.trimStart();
+			if (value) {
+				reasoningStarted = true;
+				onReasoning(value);
+			}
+			return;
+		}
+
+		const value = contentStarted ? text : text.trimStart();
+		if (value) {
+			contentStarted = true;
+			onContent(value);
+		}
+	};
+
+	const drain = (final: boolean) => {
+		while (buffer) {
+			const match = THINK_TAG_PATTERN.exec(buffer);
+			if (match) {
+				emit(buffer.slice(0, match.index));
+				buffer = buffer.slice(match.index + match[0].length);
+				inThink = match[1] !== '/';
+				continue;
+			}
+
+			const tagStart = final ? -1 : buffer.lastIndexOf('<');
+			if (tagStart !== -1 && isPartialThinkTag(buffer.slice(tagStart))) {
+				emit(buffer.slice(0, tagStart));
+				buffer = buffer.slice(tagStart);
+				return;
+			}
+
+			emit(buffer);
+			buffer = '';
+		}
+	};
+
+	return {
+		push(delta: string) {
+			buffer += delta;
+			drain(false);
+		},
+		flush() {
+			drain(true);
+		}
+	};
+}
+
+export function splitThinking(text: string): { content: string; reasoning: string } {
+	let source = text;
+	// Some reasoning models put the opening tag in the prompt template and only emit the closing one.
+	const firstTag = THINK_TAG_PATTERN.exec(source);
+	if (firstTag && firstTag[1] === '/') {
+		source = `<think>${source}`;
+	}
+
+	let content = '';
+	let reasoning = '';
+	const splitter = createThinkTagSplitter(
+		(delta) => {
+			content += delta;
+		},
+		(delta) => {
+			reasoning += delta;
+		}
+	);
+	splitter.push(source);
+	splitter.flush();
+
+	return {
+		content: content.replace(/\n{3,}/g, '\n\n').trim(),
+		reasoning: reasoning.trim()
+	};
+}
+
+function readReasoningDetails(value: unknown): string {
+	if (!Array.isArray(value)) {
+		return '';
+	}
+
+	return value
+		.map((detail) => {
+			if (!detail || typeof detail !== 'object') {
+				return '';
+			}
+			const record = detail as Record<string, unknown>;
+			if (typeof record.text === 'string') {
+				return record.text;
+			}
+			return typeof record.summary === 'string' ? record.summary : '';
+		})
+		.join('');
+}
+
+// OpenRouter sends both `reasoning` and `reasoning_details` with the same text, so only one is used.
+export function readReasoningText(node: Record<string, unknown>): string {
+	if (typeof node.reasoning === 'string' && node.reasoning) {
+		return node.reasoning;
+	}
+	if (typeof node.reasoning_content === 'string' && node.reasoning_content) {
+		return node.reasoning_content;
+	}
+	return readReasoningDetails(node.reasoning_details);
+}
+
+export function ensureTextResponse(payload: unknown): string {
+	if (!payload || typeof payload !== 'object') {
+		return '';
+	}
+
+	const record = payload as Record<string, unknown>;
+	const choices = record.choices;
+	if (!Array.isArray(choices) || choices.length === 0) {
+		return '';
+	}
+
+	const first = choices[0];
+	if (!first || typeof first !== 'object') {
+		return '';
+	}
+
+	const firstRecord = first as Record<string, unknown>;
+	const message = firstRecord.message;
+	if (!message || typeof message !== 'object') {
+		return '';
+	}
+
+	const content = (message as Record<string, unknown>).content;
+	if (typeof content === 'string') {
+		return content.trim();
+	}
+
+	if (!Array.isArray(content)) {
+		return '';
+	}
+
+	const merged = content
+		.map((part) => {
+			if (!part || typeof part !== 'object') {
+				return '';
+			}
+			const text = (part as Record<string, unknown>).text;
+			return typeof text === 'string' ? text : '';
+		})
+		.join('')
+		.trim();
+
+	return merged;
+}
+
+function readFirstChoice(payload: unknown): Record<string, unknown> | null {
+	if (!payload || typeof payload !== 'object') {
+		return null;
+	}
+
+	const choices = (payload as Record<string, unknown>).choices;
+	if (!Array.isArray(choices) || choices.length === 0) {
+		return null;
+	}
+
+	const first = choices[0];
+	return first && typeof first === 'object' ? (first as Record<string, unknown>) : null;
+}
+
+function readFirstChoiceNode(payload: unknown, key: 'message' | 'delta'): Record<string, unknown> | null {
+	const node = readFirstChoice(payload)?.[key];
+	return node && typeof node === 'object' ? (node as Record<string, unknown>) : null;
+}
+
+export function readFinishReason(payload: unknown): string | null {
+	return normalizeOptionalText(readFirstChoice(payload)?.finish_reason);
+}
+
+function readTokenCount(value: unknown): number {
+	return typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.floor(value) : 0;
+}
+
+export function readUsage(
+	payload: unknown,
+	promptKey = 'prompt_tokens',
+	completionKey = 'completion_tokens'
+): ProviderUsage | null {
+	if (!payload || typeof payload !== 'object') {
+		return null;
+	}
+
+	const usage = (payload as Record<string, unknown>).usage;
+	if (!usage || typeof usage !== 'object') {
+		return null;
+	}
+
+	const record = usage as Record<string, unknown>;
+	const result: ProviderUsage = {
+		promptTokens: readTokenCount(record[promptKey]),
+		completionTokens: readTokenCount(record[completionKey])
+	};
+	if (typeof record.cost === 'number' && Number.isFinite(record.cost) && record.cost >= 0) {
+		result.costUsd = record.cost;
+	}
+	return result;
+}
+
+export function readResponseReasoning(payload: unknown): string {
+	const message = readFirstChoiceNode(payload, 'message');
+	return message ? readReasoningText(message).trim() : '';
+}
+
+function readToolCallNode(value: unknown): { index: number; id: string; name: string; arguments: string } | null {
+	if (!value || typeof value !== 'object') {
+		return null;
+	}
+
+	const record = value as Record<string, unknown>;
+	const fn = record.function && typeof record.function === 'object' ? (record.function as Record<string, unknown>) : {};
+	return {
+		index: typeof record.index === 'number' ? record.index : 0,
+		id: typeof record.id === 'string' ? record.id : '',
+		name: typeof fn.name === 'string' ? fn.name : '',
+		arguments: typeof fn.arguments === 'string' ? fn.arguments : ''
+	};
+}
+
+export function readResponseToolCalls(payload: unknown): ChatToolCall[] {
+	const message = readFirstChoiceNode(payload, 'message');
+	if (!message || !Array.isArray(message.tool_calls)) {
+		return [];
+	}
+
+	const toolCalls: ChatToolCall[] = [];
+	message.tool_calls.forEach((value, position) => {
+		const node = readToolCallNode(value);
+		if (node?.name) {
+			toolCalls.push({ id: node.id || `call_${position}`, name: node.name, arguments: node.arguments || '{}' });
+		}
+	});
+	return toolCalls;
+}
+
+export function normalizeOptionalText(value: unknown): string | null {
+	if (typeof value !== 'string') {
+		return null;
+	}
+
+	const trimmed = value.trim();
+	return trimmed.length > 0 ? trimmed : null;
+}
+
+export function toErrorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : 'Unknown error.';
+}
+
+export function parseJsonSafe(value: string): unknown {
+	try {
+		return JSON.parse(value);
+	} catch {
+		return null;
+	}
+}
+
+export function readOpenRouterError(payload: unknown): string | null {
+	if (!payload || typeof payload !== 'object') {
+		return null;
+	}
+
+	const record = payload as Record<string, unknown>;
+	const errorNode = record.error;
+	if (!errorNode || typeof errorNode !== 'object') {
+		return null;
+	}
+
+	const errorRecord = errorNode as Record<string, unknown>;
+	const message = normalizeOptionalText(errorRecord.message) ?? 'Provider returned an error.';
+	const code =
+		typeof errorRecord.code === 'number' || typeof errorRecord.code === 'string'
+			? String(errorRecord.code)
+			: null;
+
+	let provider: string | null = null;
+	let raw: string | null = null;
+	const metadata = errorRecord.metadata;
+	if (metadata && typeof metadata === 'object') {
+		const metadataRecord = metadata as Record<string, unknown>;
+		provider = normalizeOptionalText(metadataRecord.provider_name);
+		raw = normalizeOptionalText(metadataRecord.raw);
+	}
+
+	const details: string[] = [message];
+	if (code) {
+		details.push(`code ${code}`);
+	}
+	if (provider) {
+		details.push(`provider ${provider}`);
+	}
+	if (raw) {
+		details.push(raw);
+	}
+
+	return details.join(' | ');
+}
+
+export function parseTimeoutMs(rawValue: string | undefined, fallbackMs: number): number {
+	const trimmed = typeof rawValue === 'string' ? rawValue.trim() : '';
+	if (!trimmed) {
+		return fallbackMs;
+	}
+
+	const parsed = Number(trimmed);
+	if (!Number.isFinite(parsed)) {
+		return fallbackMs;
+	}
+
+	return Math.min(Math.max(Math.floor(parsed), 1_000), 300_000);
+}
+
+export function linkAbortSignal(controller: AbortController, signal: AbortSignal | undefined): () => void {
+	if (!signal) {
+		return () => {};
+	}
+	if (signal.aborted) {
+		controller.abort();
+		return () => {};
+	}
+
+	const abort = () => {
+		controller.abort();
+	};
+	signal.addEventListener('abort', abort, { once: true });
+	return () => {
+		signal.removeEventListener('abort', abort);
+	};
+}
+
+// Non-streaming bodies are read while the request deadline is still armed, so a server that stalls after its headers
+// still times out. describeAbort turns the abort into the provider's cancel or timeout error.
+export async function readResponseText(response: Response, describeAbort: () => Error): Promise<string> {
+	try {
+		return await response.text();
+	} catch (error) {
+		if (error instanceof Error && error.name === 'AbortError') {
+			throw describeAbort();
+		}
+		throw error;
+	}
+}
+
+export function withNoTrailingSlash(url: string): string {
+	return url.endsWith('/') ? url.slice(0, -1) : url;
+}
+
+export async function readServerSentEvents(
+	response: Response,
+	providerLabel: string,
+	onData: (data: string) => boolean | void,
+	idleTimeoutMs?: number
+): Promise<void> {
+	if (!response.body) {
+		throw new Error(`${providerLabel} returned an empty stream.`);
+	}
+
+	const reader = response.body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = '';
+
+	const handleLine = (line: string): boolean => {
+		const trimmed = line.trim();
+		if (!trimmed.startsWith('data:')) {
+			return false;
+		}
+		return onData(trimmed.slice(5).trim()) === true;
+	};
+
+	const readChunk = async () => {
+		if (!idleTimeoutMs) {
+			return reader.read();
+		}
+
+		let idleHandle: ReturnType<typeof setTimeout> | undefined;
+		const idle = new Promise<never>((_, reject) => {
+			idleHandle = setTimeout(() => {
+				reject(
+					new ProviderRequestError(`${providerLabel} stream stalled for ${idleTimeoutMs}ms.`, { retryable: true })
+				);
+			}, idleTimeoutMs);
+		});
+		try {
+			return await Promise.race([reader.read(), idle]);
+		} finally {
+			clearTimeout(idleHandle);
+		}
+	};
+
+	try {
+		while (true) {
+			const { done, value } = await readChunk();
+			if (done) {
+				break;
+			}
+
+			buffer += decoder.decode(value, { stream: true });
+			const lines = buffer.split('\n');
+			buffer = lines.pop() ?? '';
+			for (const line of lines) {
+				if (handleLine(line)) {
+					return;
+				}
+			}
+		}
+
+		buffer += decoder.decode();
+		if (buffer) {
+			handleLine(buffer);
+		}
+	} finally {
+		// Cancelling through the reader also settles a read still pending after an idle timeout.
+		void reader.cancel().catch(() => undefined);
+		reader.releaseLock();
+	}
+}
+
+export interface StreamedCompletionOptions {
+	onReasoningDelta?: ChatCompletionDeltaHandler;
+	idleTimeoutMs?: number;
+}
+
+export async function readStreamedCompletion(
+	response: Response,
+	onDelta: ChatCompletionDeltaHandler,
+	providerLabel: string,
+	{ onReasoningDelta, idleTimeoutMs }: StreamedCompletionOptions = {}
+): Promise<{
+	content: string;
+	reasoning: string;
+	toolCalls: ChatToolCall[];
+	usage: ProviderUsage | null;
+	finishReason: string | null;
+}> {
+	let content = '';
+	let reasoning = '';
+	let usage: ProviderUsage | null = null;
+	let finishReason: string | null = null;
+	// Tool calls arrive in fragments keyed by index: the id and name first, then the arguments in pieces.
+	const toolCallParts = new Map<number, ChatToolCall>();
+
+	await readServerSentEvents(response, providerLabel, (data) => {
+		if (data === '[DONE]') {
+			return true;
+		}
+
+		const payload = parseJsonSafe(data);
+		const providerError = readOpenRouterError(payload);
+		if (providerError) {
+			throw new Error(`${providerLabel} stream error: ${providerError}`);
+		}
+
+		// With stream_options.include_usage the totals arrive on a final chunk without choices.
+		usage = readUsage(payload) ?? usage;
+		finishReason = readFinishReason(payload) ?? finishReason;
+
+		const delta = readFirstChoiceNode(payload, 'delta');
+		if (!delta) {
+			return;
+		}
+
+		const reasoningDelta = readReasoningText(delta);
+		if (reasoningDelta) {
+			reasoning += reasoningDelta;
+			onReasoningDelta?.(reasoningDelta);
+		}
+
+		if (typeof delta.content === 'string' && delta.content) {
+			content += delta.content;
+			onDelta(delta.content);
+		}
+
+		if (Array.isArray(delta.tool_calls)) {
+			for (const value of delta.tool_calls) {
+				const node = readToolCallNode(value);
+				if (!node) {
+					continue;
+				}
+
+				const existing = toolCallParts.get(node.index);
+				if (existing) {
+					existing.id ||= node.id;
+					existing.name ||= node.name;
+					existing.arguments += node.arguments;
+				} else {
+					toolCallParts.set(node.index, { id: node.id, name: node.name, arguments: node.arguments });
+				}
+			}
+		}
+	}, idleTimeoutMs);
+
+	const toolCalls = [...toolCallParts.entries()]
+		.sort(([left], [right]) => left - right)
+		.filter(([, call]) => call.name)
+		.map(([index, call]) => ({ id: call.id || `call_${index}`, name: call.name, arguments: call.arguments || '{}' }));
+
+	return { content: content.trim(), reasoning: reasoning.trim(), toolCalls, usage, finishReason };
+}
+
+export function sanitizeMessages(messages: ChatCompletionMessage[]): ChatCompletionMessage[] {
+	const sanitized: ChatCompletionMessage[] = messages
+		.map((message): ChatCompletionMessage => ({
+			...message,
+			content: message.content.trim()
+		}))
+		.filter((message) => message.content.length > 0 || message.role === 'tool' || !!message.toolCalls?.length);
+
+	const baseMessages: ChatCompletionMessage[] =
+		sanitized.length > 0 ? sanitized : [{ role: 'user', content: 'Hello' }];
+	if (baseMessages.some((message) => message.role === 'system')) {
+		return baseMessages;
+	}
+
+	return [{ role: 'system', content: getSystemPrompt() }, ...baseMessages];
+}
+
+export function toOpenAIMessages(messages: ChatCompletionMessage[]): Record<string, unknown>[] {
+	return sanitizeMessages(messages).map((message) => {
+		if (message.role === 'tool') {
+			return { role: 'tool', tool_call_id: message.toolCallId ?? '', content: message.content };
+		}
+		if (message.role === 'assistant' && message.toolCalls?.length) {
+			return {
+				role: 'assistant',
+				content: message.content || null,
+				tool_calls: message.toolCalls.map((call) => ({
+					id: call.id,
+					type: 'function',
+					function: { name: call.name, arguments: call.arguments }
+				}))
+			};
+		}
+		return { role: message.role, content: message.content };
+	});
+}
+
+export function toOpenAITools(tools: ChatToolDefinition[]): Record<string, unknown>[] {
+	return tools.map((tool) => ({
+		type: 'function',
+		function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+	}));
+}
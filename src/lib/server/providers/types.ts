@@ -0,0 +1,88 @@
+export type ChatProviderId = string;
+export type ChatCompletionRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface ChatToolCall {
+	id: string;
+	name: string;
+	arguments: string;
+}
+
+export interface ChatCompletionMessage {
+	role: ChatCompletionRole;
+	content: string;
+	toolCalls?: ChatToolCall[];
+	toolCallId?: string;
+}
+
+export interface ChatToolDefinition {
+	name: string;
+	description: string;
+	parameters: Record<string, unknown>;
+}
+
+export interface ChatTool extends ChatToolDefinition {
+	execute(args: Record<string, unknown>): Promise<string>;
+}
+
+export interface ChatToolResult {
+	callId: string;
+	name: string;
+	arguments: string;
+	output: string;
+	isError: boolean;
+}
+
+export type ChatCompletionDeltaHandler = (delta: string) => void;
+
+export interface ChatProviderCapabilities {
+	streaming: boolean;
+	reasoning: boolean;
+	vision: boolean;
+	tools: boolean;
+}
+
+export interface ProviderConfigField {
+	key: string;
+	description: string;
+	env?: string;
+	required?: boolean;
+	defaultValue?: string;
+}
+
+export type ProviderConfig = Record<string, string | undefined>;
+
+export interface ProviderCompletionRequest {
+	messages: ChatCompletionMessage[];
+	reasoningEnabled: boolean;
+	model?: string;
+	tools?: ChatToolDefinition[];
+	onDelta?: ChatCompletionDeltaHandler;
+	onReasoningDelta?: ChatCompletionDeltaHandler;
+	signal?: AbortSignal;
+}
+
+export interface ProviderUsage {
+	promptTokens: number;
+	completionTokens: number;
+	// Set when the provider bills the request itself, e.g. OpenRouter's usage accounting.
+	costUsd?: number;
+}
+
+export interface ProviderCompletion {
+	reply: string;
+	reasoning?: string;
+	toolCalls?: ChatToolCall[];
+	// The upstream model that answered, which differs from the requested one after a fallback.
+	model?: string;
+	usedFallback?: boolean;
+	usage?: ProviderUsage | null;
+	finishReason?: string | null;
+}
+
+export interface ChatProviderAdapter {
+	id: ChatProviderId;
+	label: string;
+	capabilities: ChatProviderCapabilities;
+	configSchema: ProviderConfigField[];
+	complete(request: ProviderCompletionRequest, config: ProviderConfig): Promise<ProviderCompletion>;
+}
@@ -1,29 +1,60 @@
 import { env as privateEnv } from '$env/dynamic/private';
 import { env as publicEnv } from '$env/dynamic/public';
+import { commitUsage, refundUsage, type UsageSettlement } from './usage';
 
 export type UserRole = 'base' | 'vip' | 'dev';
+export type QuotaWindow = 'messages_per_day' | 'tokens_per_day' | 'requests_per_minute';
 
+// A null limit means the window is not enforced for that role.
+export interface QuotaPolicy {
+	role: UserRole;
+	messagesPerDay: number | null;
+	tokensPerDay: number | null;
+	requestsPerMinute: number | null;
+}
+
+export interface QuotaWindowStatus {
+	window: QuotaWindow;
+	used: number;
+	limit: number | null;
+	remaining: number | null;
+	resetsAt: string;
+}
+
+// used/limit/remaining describe the daily message window, which the UI shows by default.
+// resetsAt is when the exceeded window reopens, or when the daily window resets if nothing is exceeded.
 export interface QuotaResult {
 	allowed: boolean;
 	role: UserRole;
 	used: number;
-	limit: number;
-	remaining: number;
+	limit: number | null;
+	remaining: number | null;
+	windows: QuotaWindowStatus[];
+	exceeded: QuotaWindow | null;
+	resetsAt: string;
 }
 
-function toNumber(value: unknown): number {
-	if (typeof value === 'number' && Number.isFinite(value)) {
-		return value;
-	}
-	if (typeof value === 'string') {
-		const parsed = Number(value);
-		if (Number.isFinite(parsed)) {
-			return parsed;
-		}
-	}
-	return 0;
+export interface QuotaReservation {
+	quota: QuotaResult;
+	reservationId: number | null;
 }
 
+const ALL_ROLES: UserRole[] = ['base', 'vip', 'dev'];
+const DEFAULT_QUOTA_POLICIES: Record<UserRole, QuotaPolicy> = {
+	base: { role: 'base', messagesPerDay: 25, tokensPerDay: null, requestsPerMinute: 6 },
+	vip: { role: 'vip', messagesPerDay: 250, tokensPerDay: null, requestsPerMinute: 20 },
+	dev: { role: 'dev', messagesPerDay: null, tokensPerDay: null, requestsPerMinute: null }
+};
+const DAY_MS = 86_400_000;
+const MINUTE_MS = 60_000;
+// A reservation that was never settled (e.g. the server restarted mid-reply) stops counting after this long.
+const RESERVATION_TTL_MS = 15 * MINUTE_MS;
+const WINDOW_LABELS: Record<QuotaWindow, string> = {
+	messages_per_day: 'Daily message limit reached.',
+	tokens_per_day: 'Daily token limit reached.',
+	requests_per_minute: 'Too many requests in the last minute.'
+};
+
 function toRole(value: unknown): UserRole {
 	if (value === 'vip') {
 		return value;
@@ -41,6 +72,15 @@ function toDatabaseRole(role: UserRole): 'base' | 'vip' | 'creator' {
 	return role;
 }
 
+function toLimit(value: unknown): number | null {
+	if (value === null || value === undefined || value === '') {
+		return null;
+	}
+
+	const parsed = typeof value === 'number' ? value : Number(value);
+	return Number.isFinite(parsed) && parsed >= 0 ? Math.floor(parsed) : null;
+}
+
 function getSupabaseConfig() {
 	const url = privateEnv.SUPABASE_URL || publicEnv.PUBLIC_SUPABASE_URL;
 	const serviceRoleKey = privateEnv.SUPABASE_SERVICE_ROLE_KEY;
@@ -124,49 +164,263 @@ export async function ensureUserRole(userId: string): Promise<UserRole> {
 	return 'base';
 }
 
-export async function consumeDailyQuota(userId: string): Promise<QuotaResult> {
-	const payload = await callRpc('consume_daily_message_quota', { p_user_id: userId });
+export async function setUserRole(userId: string, role: UserRole): Promise<UserRole> {
+	const databaseRole = toDatabaseRole(role);
+	const payload = await callTable('chat_user_roles?on_conflict=user_id', {
+		method: 'POST',
+		headers: {
+			Prefer: 'resolution=merge-duplicates,return=representation'
+		},
+		body: JSON.stringify([
+			{
+				user_id: userId,
+				role: databaseRole,
+				updated_at: new Date().toISOString()
+			}
+		])
+	});
+
 	const row = Array.isArray(payload) ? payload[0] : payload;
+	if (!row || typeof row !== 'object') {
+		return role;
+	}
 
+	const record = row as Record<string, unknown>;
+	return toRole(record.role);
+}
+
+function parsePolicyRow(row: unknown): QuotaPolicy | null {
 	if (!row || typeof row !== 'object') {
-		throw new Error('Supabase quota RPC returned an invalid payload.');
+		return null;
 	}
 
 	const record = row as Record<string, unknown>;
-	const used = toNumber(record.used);
-	const limit = toNumber(record.quota_limit);
-	const remaining = toNumber(record.remaining);
+	if (typeof record.role !== 'string') {
+		return null;
+	}
 
 	return {
-		allowed: Boolean(record.allowed),
-		role: toRole(record.role_name),
-		used,
-		limit,
-		remaining
+		role: toRole(record.role),
+		messagesPerDay: toLimit(record.messages_per_day),
+		tokensPerDay: toLimit(record.tokens_per_day),
+		requestsPerMinute: toLimit(record.requests_per_minute)
 	};
 }
 
-export async function setUserRole(userId: string, role: UserRole): Promise<UserRole> {
-	const databaseRole = toDatabaseRole(role);
-	const payload = await callTable('chat_user_roles?on_conflict=user_id', {
+export function normalizeQuotaPolicy(role: UserRole, value: Record<string, unknown>): QuotaPolicy {
+	return {
+		role,
+		messagesPerDay: toLimit(value.messagesPerDay),
+		tokensPerDay: toLimit(value.tokensPerDay),
+		requestsPerMinute: toLimit(value.requestsPerMinute)
+	};
+}
+
+export function isUserRole(value: unknown): value is UserRole {
+	return ALL_ROLES.includes(value as UserRole);
+}
+
+export async function listQuotaPolicies(): Promise<QuotaPolicy[]> {
+	const payload = await callTable(
+		'chat_quota_policies?select=role,messages_per_day,tokens_per_day,requests_per_minute',
+		{ method: 'GET' }
+	);
+
+	const policies = new Map(ALL_ROLES.map((role) => [role, { ...DEFAULT_QUOTA_POLICIES[role] }]));
+	if (Array.isArray(payload)) {
+		for (const row of payload) {
+			const policy = parsePolicyRow(row);
+			if (policy) {
+				policies.set(policy.role, policy);
+			}
+		}
+	}
+	return [...policies.values()];
+}
+
+export async function getQuotaPolicy(role: UserRole): Promise<QuotaPolicy> {
+	try {
+		const policies = await listQuotaPolicies();
+		return policies.find((policy) => policy.role === role) ?? { ...DEFAULT_QUOTA_POLICIES[role] };
+	} catch (error) {
+		console.error(error);
+		return { ...DEFAULT_QUOTA_POLICIES[role] };
+	}
+}
+
+export async function saveQuotaPolicy(policy: QuotaPolicy): Promise<QuotaPolicy> {
+	const payload = await callTable('chat_quota_policies?on_conflict=role', {
 		method: 'POST',
 		headers: {
 			Prefer: 'resolution=merge-duplicates,return=representation'
 		},
 		body: JSON.stringify([
 			{
-				user_id: userId,
-				role: databaseRole,
+				role: toDatabaseRole(policy.role),
+				messages_per_day: policy.messagesPerDay,
+				tokens_per_day: policy.tokensPerDay,
+				requests_per_minute: policy.requestsPerMinute,
 				updated_at: new Date().toISOString()
 			}
 		])
 	});
 
+	const row = Array.isArray(payload) ? payload[0] : payload;
+	return parsePolicyRow(row) ?? policy;
+}
+
+interface LedgerCounts {
+	messagesToday: number;
+	tokensToday: number;
+	recentRequests: number;
+	oldestRecentRequest: number | null;
+}
+
+const EMPTY_LEDGER: LedgerCounts = { messagesToday: 0, tokensToday: 0, recentRequests: 0, oldestRecentRequest: null };
+
+function toCount(value: unknown): number {
+	const parsed = typeof value === 'number' ? value : Number(value);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+}
+
+function readLedgerRow(payload: unknown): Record<string, unknown> {
 	const row = Array.isArray(payload) ? payload[0] : payload;
 	if (!row || typeof row !== 'object') {
-		return role;
+		throw new Error('Supabase quota RPC returned an invalid payload.');
 	}
+	return row as Record<string, unknown>;
+}
 
-	const record = row as Record<string, unknown>;
-	return toRole(record.role);
+function parseLedgerCounts(record: Record<string, unknown>): LedgerCounts {
+	const oldest = typeof record.oldest_recent_request === 'string' ? Date.parse(record.oldest_recent_request) : NaN;
+	return {
+		messagesToday: toCount(record.messages_today),
+		tokensToday: toCount(record.tokens_today),
+		recentRequests: toCount(record.recent_requests),
+		oldestRecentRequest: Number.isNaN(oldest) ? null : oldest
+	};
+}
+
+function getDayStart(now: Date): number {
+	return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+}
+
+// The ledger is counted in Postgres; refunded rows and reservations older than the TTL are skipped there.
+function toLedgerParams(userId: string, now: Date) {
+	return {
+		p_user_id: userId,
+		p_day_start: new Date(getDayStart(now)).toISOString(),
+		p_minute_start: new Date(now.valueOf() - MINUTE_MS).toISOString(),
+		p_stale_before: new Date(now.valueOf() - RESERVATION_TTL_MS).toISOString()
+	};
+}
+
+function buildWindow(window: QuotaWindow, used: number, limit: number | null, resetsAt: number): QuotaWindowStatus {
+	return {
+		window,
+		used,
+		limit,
+		remaining: limit === null ? null : Math.max(limit - used, 0),
+		resetsAt: new Date(resetsAt).toISOString()
+	};
+}
+
+// A request is admitted when every enforced window still has room.
+function buildQuotaResult(role: UserRole, policy: QuotaPolicy, counts: LedgerCounts, now: Date): QuotaResult {
+	const dayStart = getDayStart(now);
+	const windows = [
+		buildWindow('messages_per_day', counts.messagesToday, policy.messagesPerDay, dayStart + DAY_MS),
+		buildWindow('tokens_per_day', counts.tokensToday, policy.tokensPerDay, dayStart + DAY_MS),
+		buildWindow(
+			'requests_per_minute',
+			counts.recentRequests,
+			policy.requestsPerMinute,
+			(counts.oldestRecentRequest ?? now.valueOf()) + MINUTE_MS
+		)
+	];
+
+	// When several windows are full the caller has to wait for the one that reopens last.
+	const exceeded = windows
+		.filter((status) => status.limit !== null && status.used >= status.limit)
+		.sort((left, right) => Date.parse(right.resetsAt) - Date.parse(left.resetsAt))[0];
+	const messages = windows[0];
+
+	return {
+		allowed: !exceeded,
+		role,
+		used: messages.used,
+		limit: messages.limit,
+		remaining: messages.remaining,
+		windows,
+		exceeded: exceeded?.window ?? null,
+		resetsAt: exceeded?.resetsAt ?? messages.resetsAt
+	};
+}
+
+export async function checkQuota(userId: string, now = new Date()): Promise<QuotaResult> {
+	const role = await ensureUserRole(userId);
+	const policy = await getQuotaPolicy(role);
+	const needsLedger =
+		policy.messagesPerDay !== null || policy.tokensPerDay !== null || policy.requestsPerMinute !== null;
+	const counts = needsLedger
+		? parseLedgerCounts(readLedgerRow(await callRpc('chat_quota_usage', toLedgerParams(userId, now))))
+		: EMPTY_LEDGER;
+	return buildQuotaResult(role, policy, counts, now);
+}
+
+// Holds a slot in every window until the reply is committed or the reservation is released.
+// reserve_chat_quota checks the windows and inserts the reservation under a per-user lock,
+// so concurrent requests cannot all pass the check.
+export async function reserveQuota(userId: string, now = new Date()): Promise<QuotaReservation> {
+	const role = await ensureUserRole(userId);
+	const policy = await getQuotaPolicy(role);
+	const row = readLedgerRow(
+		await callRpc('reserve_chat_quota', {
+			...toLedgerParams(userId, now),
+			p_messages_per_day: policy.messagesPerDay,
+			p_tokens_per_day: policy.tokensPerDay,
+			p_requests_per_minute: policy.requestsPerMinute
+		})
+	);
+	const quota = buildQuotaResult(role, policy, parseLedgerCounts(row), now);
+	const reservationId = typeof row.reservation_id === 'number' ? row.reservation_id : null;
+	if (reservationId === null) {
+		return { quota: { ...quota, allowed: false }, reservationId: null };
+	}
+
+	for (const status of quota.windows) {
+		if (status.window !== 'tokens_per_day') {
+			status.used += 1;
+			status.remaining = status.limit === null ? null : Math.max(status.limit - status.used, 0);
+		}
+	}
+	return {
+		quota: { ...quota, used: quota.windows[0].used, remaining: quota.windows[0].remaining },
+		reservationId
+	};
+}
+
+export async function commitQuota(reservationId: number, settlement: UsageSettlement): Promise<void> {
+	await commitUsage(reservationId, settlement);
+}
+
+export async function releaseQuota(reservationId: number, settlement: UsageSettlement): Promise<void> {
+	await refundUsage(reservationId, settlement);
+}
+
+export function formatResetIn(resetsAt: string, now = new Date()): string {
+	const totalMinutes = Math.max(Math.ceil((Date.parse(resetsAt) - now.valueOf()) / MINUTE_MS), 1);
+	const hours = Math.floor(totalMinutes / 60);
+	const minutes = totalMinutes % 60;
+	if (hours === 0) {
+		return `${minutes}m`;
+	}
+	return minutes === 0 ? `${hours}h` : `${hours}h ${minutes}m`;
+}
+
+export function describeQuotaExceeded(quota: QuotaResult): string {
+	if (!quota.exceeded) {
+		return "You're cut off! Go outside. Touch some grass.";
+	}
+	return `You're cut off! ${WINDOW_LABELS[quota.exceeded]} Resets in ${formatResetIn(quota.resetsAt)}.`;
 }
@@ -0,0 +1,127 @@
+import { completeChat, type ChatCompletionMessage, type ChatProvider } from './chat-providers';
+import {
+	getThreadSummary,
+	saveThreadSummary,
+	type ChatMessageRecord,
+	type ThreadSummaryRecord
+} from './chats';
+import { estimateTokens } from './token-budget';
+import { recordCompletionUsage } from './usage';
+
+export interface ThreadSummaryRefreshOptions {
+	provider?: ChatProvider;
+	model?: string;
+	contextLength: number;
+}
+
+const SUMMARY_SYSTEM_PROMPT = `You maintain a running summary of a conversation between a user and an AI assistant.
+Merge the previous summary with the new turns into one updated summary.
+Keep names, facts, decisions, open questions and stated preferences. Drop small talk.
+Write at most 250 words as short bullet points. Return only the summary.`;
+const MAX_SUMMARY_CHARS = 4_000;
+const MAX_TURN_CHARS = 6_000;
+const refreshingThreads = new Set<string>();
+
+export function buildSummarySystemMessage(summary: ThreadSummaryRecord): ChatCompletionMessage {
+	return {
+		role: 'system',
+		content: `Summary of earlier parts of this conversation that are no longer shown:\n${summary.content}`
+	};
+}
+
+// There is one summary per thread, so after an edit, regenerate or branch switch it may describe another branch.
+export function isSummaryOnPath(summary: ThreadSummaryRecord | null, path: ChatMessageRecord[]): boolean {
+	return Boolean(summary && path.some((message) => message.id === summary.coveredMessageId));
+}
+
+function formatTurn(message: ChatMessageRecord): string {
+	const speaker = message.role === 'user' ? 'User' : 'Assistant';
+	const content =
+		message.content.length > MAX_TURN_CHARS ? `${message.content.slice(0, MAX_TURN_CHARS)}…` : message.content;
+	return `${speaker}: ${content}`;
+}
+
+function chunkTurns(messages: ChatMessageRecord[], maxTokens: number): ChatMessageRecord[][] {
+	const chunks: ChatMessageRecord[][] = [];
+	let current: ChatMessageRecord[] = [];
+	let currentTokens = 0;
+
+	for (const message of messages) {
+		const tokens = estimateTokens(formatTurn(message));
+		if (current.length > 0 && currentTokens + tokens > maxTokens) {
+			chunks.push(current);
+			current = [];
+			currentTokens = 0;
+		}
+		current.push(message);
+		currentTokens += tokens;
+	}
+
+	if (current.length > 0) {
+		chunks.push(current);
+	}
+	return chunks;
+}
+
+async function summarizeChunk(
+	userId: string,
+	threadId: string,
+	previousSummary: string,
+	turns: ChatMessageRecord[],
+	options: ThreadSummaryRefreshOptions
+): Promise<string> {
+	const input = [
+		`Previous summary:\n${previousSummary || '(none)'}`,
+		`New turns:\n${turns.map(formatTurn).join('\n\n')}`
+	].join('\n\n');
+
+	const messages: ChatCompletionMessage[] = [
+		{ role: 'system', content: SUMMARY_SYSTEM_PROMPT },
+		{ role: 'user', content: input }
+	];
+	const completion = await completeChat(messages, options.provider, false, {
+		model: options.model,
+		pinProvider: options.provider !== undefined
+	});
+	void recordCompletionUsage(userId, 'summary', completion, messages, { threadId }).catch((error) => {
+		console.error(error);
+	});
+	return completion.reply.trim().slice(0, MAX_SUMMARY_CHARS);
+}
+
+export async function refreshThreadSummary(
+	userId: string,
+	threadId: string,
+	path: ChatMessageRecord[],
+	droppedMessages: ChatMessageRecord[],
+	options: ThreadSummaryRefreshOptions
+): Promise<void> {
+	if (refreshingThreads.has(threadId)) {
+		return;
+	}
+
+	refreshingThreads.add(threadId);
+	try {
+		// A summary of another branch is replaced by one of this path instead of being merged into it.
+		const stored = await getThreadSummary(userId, threadId);
+		const existing = isSummaryOnPath(stored, path) ? stored : null;
+		const coveredMessageId = existing?.coveredMessageId ?? 0;
+		const pending = droppedMessages.filter((message) => message.id > coveredMessageId);
+		if (pending.length === 0) {
+			return;
+		}
+
+		// Leave half the window for the previous summary, the instructions and the reply.
+		const chunkBudget = Math.max(Math.floor(options.contextLength / 2), 512);
+		let summary = existing?.content ?? '';
+		for (const chunk of chunkTurns(pending, chunkBudget)) {
+			summary = await summarizeChunk(userId, threadId, summary, chunk, options);
+			if (!summary) {
+				return;
+			}
+			await saveThreadSummary(userId, threadId, summary, chunk[chunk.length - 1].id);
+		}
+	} finally {
+		refreshingThreads.delete(threadId);
+	}
+}
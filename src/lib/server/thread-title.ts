@@ -0,0 +1,54 @@
+import { completeChat, type ChatCompletionMessage, type ChatProvider } from './chat-providers';
+import { saveGeneratedThreadTitle } from './chats';
+import { recordCompletionUsage } from './usage';
+
+export interface ThreadTitleOptions {
+	provider?: ChatProvider;
+	model?: string;
+}
+
+const TITLE_SYSTEM_PROMPT = `Write a title for the conversation below so it can be found again in a list of chats.
+Use at most 6 words in the language of the conversation. Name the topic, not the request.
+No quotes, no emoji and no trailing punctuation. Return only the title.`;
+const MAX_TITLE_INPUT_CHARS = 2_000;
+const MAX_TITLE_CHARS = 60;
+
+function clip(value: string): string {
+	return value.length > MAX_TITLE_INPUT_CHARS ? `${value.slice(0, MAX_TITLE_INPUT_CHARS)}…` : value;
+}
+
+// Models sometimes answer with a label, quotes or markdown around the title.
+function cleanTitle(reply: string): string {
+	const firstLine = reply.trim().split('\n')[0] ?? '';
+	return firstLine
+		.replace(/^(#+\s*|title:\s*)/i, '')
+		.replace(/^[\s*_"'`“”‘’]+|[\s*_"'`“”‘’.!?:;,]+$/g, '')
+		.slice(0, MAX_TITLE_CHARS);
+}
+
+export async function generateThreadTitle(
+	userId: string,
+	threadId: string,
+	userMessage: string,
+	reply: string,
+	options: ThreadTitleOptions
+): Promise<string | null> {
+	const messages: ChatCompletionMessage[] = [
+		{ role: 'system', content: TITLE_SYSTEM_PROMPT },
+		{ role: 'user', content: `User: ${clip(userMessage)}\n\nAssistant: ${clip(reply)}` }
+	];
+	const completion = await completeChat(messages, options.provider, false, {
+		model: options.model,
+		pinProvider: options.provider !== undefined
+	});
+	void recordCompletionUsage(userId, 'title', completion, messages, { threadId }).catch((error) => {
+		console.error(error);
+	});
+
+	const title = cleanTitle(completion.reply);
+	if (!title) {
+		return null;
+	}
+
+	return (await saveGeneratedThreadTitle(userId, threadId, title)) ? title : null;
+}
@@ -0,0 +1,95 @@
+import { getSystemPrompt, type ChatCompletionMessage } from './chat-providers';
+
+export interface TokenBudget {
+	contextLength: number;
+	replyReserve: number;
+	systemTokens: number;
+	historyTokens: number;
+	promptTokens: number;
+	includedMessages: number;
+	droppedMessages: number;
+	truncatedLatest: boolean;
+}
+
+export interface BudgetedMessages {
+	messages: ChatCompletionMessage[];
+	budget: TokenBudget;
+}
+
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const MIN_REPLY_RESERVE = 256;
+const MAX_REPLY_RESERVE = 4_096;
+const TRUNCATION_MARKER = '[…earlier part of this message was trimmed to fit the context window]\n';
+
+export function estimateTokens(text: string): number {
+	return text.length > 0 ? Math.ceil(text.length / CHARS_PER_TOKEN) : 0;
+}
+
+export function estimateMessageTokens(message: ChatCompletionMessage): number {
+	return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+function getReplyReserve(contextLength: number): number {
+	return Math.min(Math.max(Math.floor(contextLength / 4), MIN_REPLY_RESERVE), MAX_REPLY_RESERVE);
+}
+
+function truncateToTokens(message: ChatCompletionMessage, maxTokens: number): ChatCompletionMessage {
+	const maxChars = Math.max((maxTokens - MESSAGE_OVERHEAD_TOKENS) * CHARS_PER_TOKEN - TRUNCATION_MARKER.length, 0);
+	// slice(-0) would keep the whole message, so with no room left only the marker is sent.
+	return {
+		role: message.role,
+		content: maxChars > 0 ? `${TRUNCATION_MARKER}${message.content.slice(-maxChars)}` : TRUNCATION_MARKER.trimEnd()
+	};
+}
+
+export function fitMessagesToBudget(
+	systemMessages: ChatCompletionMessage[],
+	history: ChatCompletionMessage[],
+	contextLength: number
+): BudgetedMessages {
+	const replyReserve = getReplyReserve(contextLength);
+	// Providers fall back to the default system prompt when none is supplied, so it still takes room.
+	const systemTokens =
+		systemMessages.length > 0
+			? systemMessages.reduce((total, message) => total + estimateMessageTokens(message), 0)
+			: estimateTokens(getSystemPrompt()) + MESSAGE_OVERHEAD_TOKENS;
+	const available = Math.max(contextLength - replyReserve - systemTokens, 0);
+
+	const kept: ChatCompletionMessage[] = [];
+	let historyTokens = 0;
+	let truncatedLatest = false;
+
+	for (let index = history.length - 1; index >= 0; index -= 1) {
+		const message = history[index];
+		const tokens = estimateMessageTokens(message);
+		if (historyTokens + tokens <= available) {
+			kept.unshift(message);
+			historyTokens += tokens;
+			continue;
+		}
+
+		// The newest message is always sent, trimmed from the front if it cannot fit on its own.
+		if (kept.length === 0) {
+			const truncated = truncateToTokens(message, available);
+			kept.unshift(truncated);
+			historyTokens += estimateMessageTokens(truncated);
+			truncatedLatest = true;
+		}
+		break;
+	}
+
+	return {
+		messages: [...systemMessages, ...kept],
+		budget: {
+			contextLength,
+			replyReserve,
+			systemTokens,
+			historyTokens,
+			promptTokens: systemTokens + historyTokens,
+			includedMessages: kept.length,
+			droppedMessages: history.length - kept.length,
+			truncatedLatest
+		}
+	};
+}
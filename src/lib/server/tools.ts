@@ -0,0 +1,287 @@
+import { env } from '$env/dynamic/private';
+import type { ChatTool } from './chat-providers';
+import { searchMessagesForUser } from './chats';
+import type { UserRole } from './quota';
+
+export interface ToolContext {
+	userId: string;
+	timezone: string | null;
+}
+
+type ToolFactory = (context: ToolContext) => ChatTool;
+
+const ALL_ROLES: UserRole[] = ['base', 'vip', 'dev'];
+const MAX_EXPRESSION_LENGTH = 200;
+const MAX_SEARCH_RESULTS = 5;
+const MAX_SNIPPET_CHARS = 300;
+
+const CONSTANTS: Record<string, number> = {
+	pi: Math.PI,
+	e: Math.E
+};
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+	abs: Math.abs,
+	sqrt: Math.sqrt,
+	cbrt: Math.cbrt,
+	round: Math.round,
+	floor: Math.floor,
+	ceil: Math.ceil,
+	min: Math.min,
+	max: Math.max,
+	exp: Math.exp,
+	ln: Math.log,
+	log: Math.log10,
+	log2: Math.log2,
+	sin: Math.sin,
+	cos: Math.cos,
+	tan: Math.tan,
+	asin: Math.asin,
+	acos: Math.acos,
+	atan: Math.atan
+};
+
+function tokenize(expression: string): string[] {
+	const tokens = expression.match(/\d*\.?\d+(?:e[+-]?\d+)?|[a-z_][a-z0-9_]*|\*\*|[-+*/%^(),]|\S/gi) ?? [];
+	for (const token of tokens) {
+		if (!/^(\d*\.?\d+(e[+-]?\d+)?|[a-z_][a-z0-9_]*|\*\*|[-+*/%^(),])$/i.test(token)) {
+			throw new Error(`Unexpected character "${token}".`);
+		}
+	}
+	return tokens;
+}
+
+// A small recursive-descent evaluator, so model-supplied input never reaches eval.
+export function evaluateExpression(expression: string): number {
+	if (expression.length > MAX_EXPRESSION_LENGTH) {
+		throw new Error(`Expressions are limited to ${MAX_EXPRESSION_LENGTH} characters.`);
+	}
+
+	const tokens = tokenize(expression);
+	let position = 0;
+
+	const peek = () => tokens[position];
+	const next = () => tokens[position++];
+	const expect = (token: string) => {
+		if (next() !== token) {
+			throw new Error(`Expected "${token}".`);
+		}
+	};
+
+	const parseSum = (): number => {
+		let value = parseProduct();
+		while (peek() === '+' || peek() === '-') {
+			value = next() === '+' ? value + parseProduct() : value - parseProduct();
+		}
+		return value;
+	};
+
+	const parseProduct = (): number => {
+		let value = parseUnary();
+		while (peek() === '*' || peek() === '/' || peek() === '%') {
+			const operator = next();
+			const right = parseUnary();
+			value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+		}
+		return value;
+	};
+
+	const parseUnary = (): number => {
+		if (peek() === '-') {
+			next();
+			return -parseUnary();
+		}
+		if (peek() === '+') {
+			next();
+			return parseUnary();
+		}
+		return parsePower();
+	};
+
+	const parsePower = (): number => {
+		const base = parsePrimary();
+		if (peek() === '^' || peek() === '**') {
+			next();
+			return base ** parseUnary();
+		}
+		return base;
+	};
+
+	const parsePrimary = (): number => {
+		const token = next();
+		if (token === undefined) {
+			throw new Error('Unexpected end of expression.');
+		}
+		if (token === '(') {
+			const value = parseSum();
+			expect(')');
+			return value;
+		}
+		if (/^\d*\.?\d/.test(token)) {
+			return Number(token);
+		}
+
+		const name = token.toLowerCase();
+		if (Object.hasOwn(FUNCTIONS, name)) {
+			expect('(');
+			const args = [parseSum()];
+			while (peek() === ',') {
+				next();
+				args.push(parseSum());
+			}
+			expect(')');
+			return FUNCTIONS[name](...args);
+		}
+		if (Object.hasOwn(CONSTANTS, name)) {
+			return CONSTANTS[name];
+		}
+		throw new Error(`Unknown name "${token}".`);
+	};
+
+	const result = parseSum();
+	if (position < tokens.length) {
+		throw new Error(`Unexpected "${tokens[position]}".`);
+	}
+	if (!Number.isFinite(result)) {
+		throw new Error('The result is not a finite number.');
+	}
+	return result;
+}
+
+function isValidTimezone(timezone: string): boolean {
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+export function normalizeTimezone(value: unknown): string | null {
+	if (typeof value !== 'string') {
+		return null;
+	}
+
+	const trimmed = value.trim();
+	return trimmed && trimmed.length <= 64 && isValidTimezone(trimmed) ? trimmed : null;
+}
+
+const calculatorTool: ToolFactory = () => ({
+	name: 'calculator',
+	description:
+		'Evaluate an arithmetic expression exactly. Supports + - * / % ^, parentheses, pi, e and functions such as sqrt, abs, round, min, max, ln, log, sin, cos and tan.',
+	parameters: {
+		type: 'object',
+		properties: {
+			expression: { type: 'string', description: 'The expression to evaluate, e.g. "(12.5 * 4) ^ 2".' }
+		},
+		required: ['expression']
+	},
+	execute: async (args) => {
+		if (typeof args.expression !== 'string' || !args.expression.trim()) {
+			throw new Error('expression is required.');
+		}
+		return String(evaluateExpression(args.expression));
+	}
+});
+
+const dateTimeTool: ToolFactory = (context) => ({
+	name: 'current_datetime',
+	description: "Get the current date and time in the user's timezone, or in another IANA timezone if one is given.",
+	parameters: {
+		type: 'object',
+		properties: {
+			timezone: { type: 'string', description: 'Optional IANA timezone such as "Europe/Berlin".' }
+		}
+	},
+	execute: async (args) => {
+		const requested = normalizeTimezone(args.timezone);
+		if (typeof args.timezone === 'string' && args.timezone.trim() && !requested) {
+			throw new Error(`Unknown timezone "${args.timezone}".`);
+		}
+
+		const timezone = requested ?? context.timezone ?? 'UTC';
+		const now = new Date();
+		const local = new Intl.DateTimeFormat('en-US', {
+			timeZone: timezone,
+			dateStyle: 'full',
+			timeStyle: 'long'
+		}).format(now);
+		return JSON.stringify({ timezone, local, iso: now.toISOString() });
+	}
+});
+
+const searchPastChatsTool: ToolFactory = (context) => ({
+	name: 'search_past_chats',
+	description:
+		"Search the user's earlier conversations for messages containing a word or phrase. Use it when the user refers to something discussed before.",
+	parameters: {
+		type: 'object',
+		properties: {
+			query: { type: 'string', description: 'A word or short phrase to look for.' }
+		},
+		required: ['query']
+	},
+	execute: async (args) => {
+		if (typeof args.query !== 'string' || !args.query.trim()) {
+			throw new Error('query is required.');
+		}
+
+		const hits = await searchMessagesForUser(context.userId, args.query, MAX_SEARCH_RESULTS);
+		if (hits.length === 0) {
+			return 'No matching messages found.';
+		}
+
+		return JSON.stringify(
+			hits.map((hit) => ({
+				chat: hit.threadTitle ?? 'Untitled chat',
+				role: hit.role,
+				date: hit.createdAt.slice(0, 10),
+				text: hit.content.length > MAX_SNIPPET_CHARS ? `${hit.content.slice(0, MAX_SNIPPET_CHARS)}…` : hit.content
+			}))
+		);
+	}
+});
+
+const BUILT_IN_TOOLS: Record<string, ToolFactory> = {
+	calculator: calculatorTool,
+	current_datetime: dateTimeTool,
+	search_past_chats: searchPastChatsTool
+};
+
+function readToolRoles(): Map<string, UserRole[]> {
+	const roles = new Map(Object.keys(BUILT_IN_TOOLS).map((name) => [name, [...ALL_ROLES]]));
+	const rawValue = typeof env.CHAT_TOOL_ROLES === 'string' ? env.CHAT_TOOL_ROLES.trim() : '';
+	if (!rawValue) {
+		return roles;
+	}
+
+	let payload: unknown;
+	try {
+		payload = JSON.parse(rawValue);
+	} catch {
+		console.error('CHAT_TOOL_ROLES is not valid JSON. Enabling every tool for every role.');
+		return roles;
+	}
+
+	if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+		console.error('CHAT_TOOL_ROLES must be a JSON object. Enabling every tool for every role.');
+		return roles;
+	}
+
+	for (const [name, value] of Object.entries(payload as Record<string, unknown>)) {
+		if (!roles.has(name)) {
+			continue;
+		}
+		roles.set(name, Array.isArray(value) ? ALL_ROLES.filter((role) => value.includes(role)) : []);
+	}
+	return roles;
+}
+
+export function listToolNamesForRole(role: UserRole): string[] {
+	return [...readToolRoles()].filter(([, roles]) => roles.includes(role)).map(([name]) => name);
+}
+
+export function getToolsForRole(role: UserRole, context: ToolContext): ChatTool[] {
+	return listToolNamesForRole(role).map((name) => BUILT_IN_TOOLS[name](context));
+}
@@ -0,0 +1,287 @@
+import { env as privateEnv } from '$env/dynamic/private';
+import { env as publicEnv } from '$env/dynamic/public';
+import type { ChatCompletionMessage, ChatProvider } from './chat-providers';
+import { findModelPricing } from './models';
+import { estimateMessageTokens, estimateTokens } from './token-budget';
+
+export type UsageKind = 'chat' | 'memory_extraction' | 'summary' | 'title';
+// Chat requests are reserved up front, then committed with a saved reply or refunded when they fail.
+export type UsageStatus = 'reserved' | 'committed' | 'refunded';
+
+export interface UsageEntry {
+	userId: string;
+	kind: UsageKind;
+	provider: string | null;
+	model: string | null;
+	promptTokens: number;
+	completionTokens: number;
+	costUsd: number;
+	// True when the provider reported no usage and the token counts were estimated locally.
+	estimated: boolean;
+	threadId?: string | null;
+	messageId?: number | null;
+}
+
+export type UsageSettlement = Omit<UsageEntry, 'userId' | 'kind'>;
+
+export interface UsageBucket {
+	period: string;
+	requests: number;
+	refunds: number;
+	promptTokens: number;
+	completionTokens: number;
+	costUsd: number;
+}
+
+export interface UsageReport {
+	daily: UsageBucket[];
+	monthly: UsageBucket[];
+	totals: UsageBucket;
+}
+
+export interface CompletionUsageSource {
+	provider: ChatProvider;
+	model: string | null;
+	reply: string;
+	usage: { promptTokens: number; completionTokens: number; costUsd?: number } | null;
+}
+
+const REPORT_DAYS = 30;
+const REPORT_MONTHS = 12;
+
+function getSupabaseConfig() {
+	const url = privateEnv.SUPABASE_URL || publicEnv.PUBLIC_SUPABASE_URL;
+	const serviceRoleKey = privateEnv.SUPABASE_SERVICE_ROLE_KEY;
+
+	if (!url) {
+		throw new Error('Missing SUPABASE_URL or PUBLIC_SUPABASE_URL.');
+	}
+	if (!serviceRoleKey) {
+		throw new Error('Missing SUPABASE_SERVICE_ROLE_KEY.');
+	}
+
+	return {
+		url: url.endsWith('/') ? url.slice(0, -1) : url,
+		serviceRoleKey
+	};
+}
+
+async function restRequest(pathWithQuery: string, init: RequestInit = {}) {
+	const { url, serviceRoleKey } = getSupabaseConfig();
+	const headers = new Headers(init.headers ?? {});
+	headers.set('apikey', serviceRoleKey);
+	headers.set('Authorization', `Bearer ${serviceRoleKey}`);
+	if (!headers.has('Content-Type') && init.body) {
+		headers.set('Content-Type', 'application/json');
+	}
+
+	return fetch(`${url}${pathWithQuery}`, {
+		...init,
+		headers
+	});
+}
+
+function roundCost(value: number): number {
+	return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+function toCount(value: unknown): number {
+	const parsed = typeof value === 'number' ? value : Number(value);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+}
+
+export function computeCostUsd(
+	provider: string,
+	model: string | null,
+	promptTokens: number,
+	completionTokens: number
+): number {
+	const pricing = findModelPricing(provider, model);
+	if (!pricing) {
+		return 0;
+	}
+	return roundCost((promptTokens * pricing.prompt + completionTokens * pricing.completion) / 1_000_000);
+}
+
+export async function recordUsage(entry: UsageEntry): Promise<void> {
+	const response = await restRequest('/rest/v1/chat_usage_events', {
+		method: 'POST',
+		headers: {
+			Prefer: 'return=minimal'
+		},
+		body: JSON.stringify([
+			{
+				user_id: entry.userId,
+				kind: entry.kind,
+				status: 'committed',
+				provider: entry.provider,
+				model: entry.model,
+				thread_id: entry.threadId ?? null,
+				message_id: entry.messageId ?? null,
+				prompt_tokens: entry.promptTokens,
+				completion_tokens: entry.completionTokens,
+				cost_usd: entry.costUsd,
+				estimated: entry.estimated
+			}
+		])
+	});
+
+	if (!response.ok) {
+		const details = await response.text();
+		throw new Error(`Failed to record usage (${response.status}): ${details}`);
+	}
+}
+
+// Only a pending reservation is updated, so settling the same reservation twice is harmless.
+async function settleUsage(reservationId: number, status: UsageStatus, settlement: UsageSettlement): Promise<void> {
+	const response = await restRequest(`/rest/v1/chat_usage_events?id=eq.${reservationId}&status=eq.reserved`, {
+		method: 'PATCH',
+		headers: {
+			Prefer: 'return=minimal'
+		},
+		body: JSON.stringify({
+			status,
+			provider: settlement.provider,
+			model: settlement.model,
+			thread_id: settlement.threadId ?? null,
+			message_id: settlement.messageId ?? null,
+			prompt_tokens: settlement.promptTokens,
+			completion_tokens: settlement.completionTokens,
+			cost_usd: settlement.costUsd,
+			estimated: settlement.estimated
+		})
+	});
+
+	if (!response.ok) {
+		const details = await response.text();
+		throw new Error(`Failed to settle usage (${response.status}): ${details}`);
+	}
+}
+
+export async function commitUsage(reservationId: number, settlement: UsageSettlement): Promise<void> {
+	await settleUsage(reservationId, 'committed', settlement);
+}
+
+// Tokens the provider streamed before failing are still recorded as spend, but no longer count against quota.
+export async function refundUsage(reservationId: number, settlement: UsageSettlement): Promise<void> {
+	await settleUsage(reservationId, 'refunded', settlement);
+}
+
+export function buildCompletionSettlement(
+	completion: CompletionUsageSource,
+	promptMessages: ChatCompletionMessage[],
+	context: { threadId?: string | null; messageId?: number | null } = {}
+): UsageSettlement {
+	const estimated = completion.usage === null;
+	const promptTokens =
+		completion.usage?.promptTokens ??
+		promptMessages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+	const completionTokens = completion.usage?.completionTokens ?? estimateTokens(completion.reply);
+	const costUsd =
+		completion.usage?.costUsd !== undefined
+			? roundCost(completion.usage.costUsd)
+			: computeCostUsd(completion.provider, completion.model, promptTokens, completionTokens);
+
+	return {
+		provider: completion.provider,
+		model: completion.model,
+		promptTokens,
+		completionTokens,
+		costUsd,
+		estimated,
+		threadId: context.threadId,
+		messageId: context.messageId
+	};
+}
+
+export async function recordCompletionUsage(
+	userId: string,
+	kind: UsageKind,
+	completion: CompletionUsageSource,
+	promptMessages: ChatCompletionMessage[],
+	context: { threadId?: string | null; messageId?: number | null } = {}
+): Promise<void> {
+	await recordUsage({ userId, kind, ...buildCompletionSettlement(completion, promptMessages, context) });
+}
+
+function emptyBucket(period: string): UsageBucket {
+	return { period, requests: 0, refunds: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 };
+}
+
+function addToBucket(bucket: UsageBucket, row: Record<string, unknown>) {
+	bucket.requests += toCount(row.requests);
+	bucket.refunds += toCount(row.refunds);
+	bucket.promptTokens += toCount(row.prompt_tokens);
+	bucket.completionTokens += toCount(row.completion_tokens);
+	bucket.costUsd = roundCost(bucket.costUsd + toCount(row.cost_usd));
+}
+
+// chat_usage_report sums the ledger per UTC day and month; reservations still in flight are left out.
+async function fetchUsageReportRows(userId: string, dayStart: Date, monthStart: Date): Promise<Record<string, unknown>[]> {
+	const response = await restRequest('/rest/v1/rpc/chat_usage_report', {
+		method: 'POST',
+		body: JSON.stringify({
+			p_user_id: userId,
+			p_day_start: dayStart.toISOString(),
+			p_month_start: monthStart.toISOString()
+		})
+	});
+
+	if (!response.ok) {
+		const details = await response.text();
+		throw new Error(`Failed to load usage (${response.status}): ${details}`);
+	}
+
+	const payload = (await response.json()) as unknown;
+	if (!Array.isArray(payload)) {
+		return [];
+	}
+	return payload.filter((row): row is Record<string, unknown> => Boolean(row) && typeof row === 'object');
+}
+
+// Buckets are UTC days and months, matching how the daily quota resets.
+export async function getUsageReport(userId: string, now = new Date()): Promise<UsageReport> {
+	const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+	const firstMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (REPORT_MONTHS - 1), 1));
+	const firstDay = new Date(today - (REPORT_DAYS - 1) * 86_400_000);
+
+	const daily = new Map<string, UsageBucket>();
+	for (let index = 0; index < REPORT_DAYS; index += 1) {
+		const period = new Date(firstDay.valueOf() + index * 86_400_000).toISOString().slice(0, 10);
+		daily.set(period, emptyBucket(period));
+	}
+
+	const monthly = new Map<string, UsageBucket>();
+	for (let index = 0; index < REPORT_MONTHS; index += 1) {
+		const period = new Date(Date.UTC(firstMonth.getUTCFullYear(), firstMonth.getUTCMonth() + index, 1))
+			.toISOString()
+			.slice(0, 7);
+		monthly.set(period, emptyBucket(period));
+	}
+
+	const totals = emptyBucket('total');
+	for (const row of await fetchUsageReportRows(userId, firstDay, firstMonth)) {
+		if (typeof row.period !== 'string') {
+			continue;
+		}
+
+		if (row.granularity === 'day') {
+			const day = daily.get(row.period);
+			if (day) {
+				addToBucket(day, row);
+			}
+		} else if (row.granularity === 'month') {
+			const month = monthly.get(row.period);
+			if (month) {
+				addToBucket(month, row);
+				addToBucket(totals, row);
+			}
+		}
+	}
+
+	return {
+		daily: [...daily.values()],
+		monthly: [...monthly.values()],
+		totals
+	};
+}
@@ -9,6 +9,7 @@ export interface UserSettingsRecord {
 	personalizationGuidance: string;
 	memoryEnabled: boolean;
 	autoMemoryEnabled: boolean;
+	autoTitleEnabled: boolean;
 	updatedAt: string;
 }
 
@@ -102,6 +103,7 @@ function parseSettingsRow(row: unknown): UserSettingsRecord | null {
 		personalizationGuidance: normalizeText(record.personalization_guidance, MAX_PERSONALIZATION_LENGTH),
 		memoryEnabled: record.memory_enabled !== false,
 		autoMemoryEnabled: record.auto_memory_enabled !== false,
+		autoTitleEnabled: record.auto_title_enabled !== false,
 		updatedAt: record.updated_at
 	};
 }
@@ -205,6 +207,7 @@ export function defaultUserSettings(userId: string): UserSettingsRecord {
 		personalizationGuidance: '',
 		memoryEnabled: true,
 		autoMemoryEnabled: true,
+		autoTitleEnabled: true,
 		updatedAt: toIsoNow()
 	};
 }
@@ -228,7 +231,7 @@ export function isMemorySchemaMissingError(error: unknown): boolean {
 export async function getOrCreateUserSettings(userId: string): Promise<UserSettingsRecord> {
 	const encodedUserId = encodeEq(userId);
 	const response = await restRequest(
-		`/rest/v1/chat_user_settings?select=user_id,personalization_guidance,memory_enabled,auto_memory_enabled,updated_at&user_id=eq.${encodedUserId}&limit=1`
+		`/rest/v1/chat_user_settings?select=user_id,personalization_guidance,memory_enabled,auto_memory_enabled,auto_title_enabled,updated_at&user_id=eq.${encodedUserId}&limit=1`
 	);
 	if (!response.ok) {
 		const details = await response.text();
@@ -252,6 +255,7 @@ export async function upsertUserSettings(
 		personalizationGuidance?: string;
 		memoryEnabled?: boolean;
 		autoMemoryEnabled?: boolean;
+		autoTitleEnabled?: boolean;
 	}
 ): Promise<UserSettingsRecord> {
 	const nextGuidance =
@@ -273,6 +277,9 @@ export async function upsertUserSettings(
 	if (typeof patch.autoMemoryEnabled === 'boolean') {
 		row.auto_memory_enabled = patch.autoMemoryEnabled;
 	}
+	if (typeof patch.autoTitleEnabled === 'boolean') {
+		row.auto_title_enabled = patch.autoTitleEnabled;
+	}
 
 	const response = await restRequest('/rest/v1/chat_user_settings?on_conflict=user_id', {
 		method: 'POST',
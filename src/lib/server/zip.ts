@@ -0,0 +1,157 @@
+import { deflateRawSync } from 'node:zlib';
+
+export interface ZipEntry {
+	name: string;
+	data: string | Uint8Array;
+	modifiedAt?: Date;
+}
+
+interface CentralRecord {
+	name: Uint8Array;
+	crc: number;
+	compressedSize: number;
+	size: number;
+	time: number;
+	date: number;
+	offset: number;
+}
+
+// Plain zip without zip64, which caps an archive at 65535 entries and 4 GiB.
+const MAX_ENTRIES = 0xffff;
+const MAX_BYTES = 0xffffffff;
+const UTF8_NAMES_FLAG = 0x0800;
+const DEFLATE_METHOD = 8;
+const ZIP_VERSION = 20;
+
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let index = 0; index < 256; index += 1) {
+		let value = index;
+		for (let bit = 0; bit < 8; bit += 1) {
+			value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+		}
+		table[index] = value >>> 0;
+	}
+	return table;
+})();
+
+function crc32(data: Uint8Array): number {
+	let crc = 0xffffffff;
+	for (const byte of data) {
+		crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+function toDosDateTime(value: Date): { time: number; date: number } {
+	const year = Math.min(Math.max(value.getFullYear(), 1980), 2107);
+	return {
+		time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+		date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate()
+	};
+}
+
+function localHeader(record: CentralRecord): Uint8Array {
+	const header = new Uint8Array(30 + record.name.length);
+	const view = new DataView(header.buffer);
+	view.setUint32(0, 0x04034b50, true);
+	view.setUint16(4, ZIP_VERSION, true);
+	view.setUint16(6, UTF8_NAMES_FLAG, true);
+	view.setUint16(8, DEFLATE_METHOD, true);
+	view.setUint16(10, record.time, true);
+	view.setUint16(12, record.date, true);
+	view.setUint32(14, record.crc, true);
+	view.setUint32(18, record.compressedSize, true);
+	view.setUint32(22, record.size, true);
+	view.setUint16(26, record.name.length, true);
+	view.setUint16(28, 0, true);
+	header.set(record.name, 30);
+	return header;
+}
+
+function centralHeader(record: CentralRecord): Uint8Array {
+	const header = new Uint8Array(46 + record.name.length);
+	const view = new DataView(header.buffer);
+	view.setUint32(0, 0x02014b50, true);
+	view.setUint16(4, ZIP_VERSION, true);
+	view.setUint16(6, ZIP_VERSION, true);
+	view.setUint16(8, UTF8_NAMES_FLAG, true);
+	view.setUint16(10, DEFLATE_METHOD, true);
+	view.setUint16(12, record.time, true);
+	view.setUint16(14, record.date, true);
+	view.setUint32(16, record.crc, true);
+	view.setUint32(20, record.compressedSize, true);
+	view.setUint32(24, record.size, true);
+	view.setUint16(28, record.name.length, true);
+	view.setUint32(42, record.offset, true);
+	header.set(record.name, 46);
+	return header;
+}
+
+function endOfCentralDirectory(entries: number, size: number, offset: number): Uint8Array {
+	const footer = new Uint8Array(22);
+	const view = new DataView(footer.buffer);
+	view.setUint32(0, 0x06054b50, true);
+	view.setUint16(8, entries, true);
+	view.setUint16(10, entries, true);
+	view.setUint32(12, size, true);
+	view.setUint32(16, offset, true);
+	return footer;
+}
+
+// Each entry is compressed and written as soon as the source yields it, so only one file is held in memory.
+export function createZipStream(entries: AsyncIterable<ZipEntry>): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder();
+	const iterator = entries[Symbol.asyncIterator]();
+	const records: CentralRecord[] = [];
+	let offset = 0;
+
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			try {
+				const next = await iterator.next();
+				if (next.done) {
+					let directorySize = 0;
+					for (const record of records) {
+						const header = centralHeader(record);
+						controller.enqueue(header);
+						directorySize += header.length;
+					}
+					controller.enqueue(endOfCentralDirectory(records.length, directorySize, offset));
+					controller.close();
+					return;
+				}
+
+				if (records.length >= MAX_ENTRIES) {
+					throw new Error('Too many files for one zip archive.');
+				}
+
+				const data = typeof next.value.data === 'string' ? encoder.encode(next.value.data) : next.value.data;
+				const compressed = deflateRawSync(data);
+				const record: CentralRecord = {
+					name: encoder.encode(next.value.name),
+					crc: crc32(data),
+					compressedSize: compressed.length,
+					size: data.length,
+					...toDosDateTime(next.value.modifiedAt ?? new Date()),
+					offset
+				};
+
+				const header = localHeader(record);
+				if (offset + header.length + compressed.length > MAX_BYTES) {
+					throw new Error('Export is too large for one zip archive.');
+				}
+
+				controller.enqueue(header);
+				controller.enqueue(new Uint8Array(compressed));
+				offset += header.length + compressed.length;
+				records.push(record);
+			} catch (error) {
+				controller.error(error);
+			}
+		},
+		async cancel() {
+			await iterator.return?.();
+		}
+	});
+}
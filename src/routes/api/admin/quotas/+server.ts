@@ -0,0 +1,71 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getUserFromAccessToken, readBearerToken } from '$lib/server/supabase-auth';
+import { isAdminUser } from '$lib/server/admin';
+import { isUserRole, listQuotaPolicies, normalizeQuotaPolicy, saveQuotaPolicy } from '$lib/server/quota';
+
+async function requireAdmin(request: Request) {
+	const accessToken = readBearerToken(request.headers.get('authorization'));
+	if (!accessToken) {
+		return { ok: false as const, response: json({ error: 'Unauthorized.' }, { status: 401 }) };
+	}
+
+	let user: Awaited<ReturnType<typeof getUserFromAccessToken>>;
+	try {
+		user = await getUserFromAccessToken(accessToken);
+	} catch (error) {
+		const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
+		return { ok: false as const, response: json({ error: messageText }, { status: 500 }) };
+	}
+
+	if (!user) {
+		return { ok: false as const, response: json({ error: 'Unauthorized.' }, { status: 401 }) };
+	}
+
+	if (!isAdminUser(user)) {
+		return { ok: false as const, response: json({ error: 'Forbidden.' }, { status: 403 }) };
+	}
+
+	return { ok: true as const, user };
+}
+
+export const GET: RequestHandler = async ({ request }) => {
+	const adminCheck = await requireAdmin(request);
+	if (!adminCheck.ok) {
+		return adminCheck.response;
+	}
+
+	try {
+		const policies = await listQuotaPolicies();
+		return json({ policies });
+	} catch (error) {
+		const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
+		return json({ error: messageText }, { status: 500 });
+	}
+};
+
+export const PUT: RequestHandler = async ({ request }) => {
+	const adminCheck = await requireAdmin(request);
+	if (!adminCheck.ok) {
+		return adminCheck.response;
+	}
+
+	let body: Record<string, unknown>;
+	try {
+		body = (await request.json()) as Record<string, unknown>;
+	} catch {
+		return json({ error: 'Invalid JSON payload.' }, { status: 400 });
+	}
+
+	if (!body || typeof body !== 'object' || !isUserRole(body.role)) {
+		return json({ error: 'Invalid role.' }, { status: 400 });
+	}
+
+	try {
+		const policy = await saveQuotaPolicy(normalizeQuotaPolicy(body.role, body));
+		return json({ policy });
+	} catch (error) {
+		const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
+		return json({ error: messageText }, { status: 500 });
+	}
+};
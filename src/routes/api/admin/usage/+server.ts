@@ -0,0 +1,50 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getUserFromAccessToken, readBearerToken } from '$lib/server/supabase-auth';
+import { isAdminUser } from '$lib/server/admin';
+import { getUsageReport } from '$lib/server/usage';
+
+async function requireAdmin(request: Request) {
+	const accessToken = readBearerToken(request.headers.get('authorization'));
+	if (!accessToken) {
+		return { ok: false as const, response: json({ error: 'Unauthorized.' }, { status: 401 }) };
+	}
+
+	let user: Awaited<ReturnType<typeof getUserFromAccessToken>>;
+	try {
+		user = await getUserFromAccessToken(accessToken);
+	} catch (error) {
+		const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
+		return { ok: false as const, response: json({ error: messageText }, { status: 500 }) };
+	}
+
+	if (!user) {
+		return { ok: false as const, response: json({ error: 'Unauthorized.' }, { status: 401 }) };
+	}
+
+	if (!isAdminUser(user)) {
+		return { ok: false as const, response: json({ error: 'Forbidden.' }, { status: 403 }) };
+	}
+
+	return { ok: true as const, user };
+}
+
+export const GET: RequestHandler = async ({ request, url }) => {
+	const adminCheck = await requireAdmin(request);
+	if (!adminCheck.ok) {
+		return adminCheck.response;
+	}
+
+	const userId = url.searchParams.get('userId')?.trim() ?? '';
+	if (!userId) {
+		return json({ error: 'userId is required.' }, { status: 400 });
+	}
+
+	try {
+		const usage = await getUsageReport(userId);
+		return json({ userId, usage });
+	} catch (error) {
+		const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
+		return json({ error: messageText }, { status: 500 });
+	}
+};
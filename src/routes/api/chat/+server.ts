@@ -1,15 +1,47 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
-import { completeChat, type ChatProvider, type ChatCompletionMessage } from '$lib/server/chat-providers';
-import { consumeDailyQuota } from '$lib/server/quota';
+import {
+	completeChat,
+	isProviderEnabled,
+	type ChatProvider,
+	type ChatCompletionMessage,
+	type ChatToolResult
+} from '$lib/server/chat-providers';
+import {
+	commitQuota,
+	describeQuotaExceeded,
+	ensureUserRole,
+	releaseQuota,
+	reserveQuota,
+	type QuotaResult
+} from '$lib/server/quota';
+import { canUseModel, findModel, getDefaultContextLength, type ChatModelEntry } from '$lib/server/models';
+import { estimateTokens, fitMessagesToBudget, type TokenBudget } from '$lib/server/token-budget';
+import { buildSummarySystemMessage, isSummaryOnPath, refreshThreadSummary } from '$lib/server/thread-summary';
+import { generateThreadTitle } from '$lib/server/thread-title';
 import { getUserFromAccessToken, readBearerToken } from '$lib/server/supabase-auth';
+import { getToolsForRole, normalizeTimezone } from '$lib/server/tools';
+import {
+	buildCompletionSettlement,
+	computeCostUsd,
+	recordCompletionUsage,
+	type UsageSettlement
+} from '$lib/server/usage';
 import {
 	addMessageToThread,
 	createThreadForUser,
+	findMessageInTree,
+	getActivePath,
+	getMessageTree,
+	getPathToMessage,
 	getThreadForUser,
-	listMessagesForThread,
+	getThreadSummary,
 	normalizeThreadTitle,
-	touchThread
+	persistLegacyMessageTree,
+	touchThread,
+	type ChatMessagePart,
+	type ChatMessageRecord,
+	type GenerationMetadata
 } from '$lib/server/chats';
 import { isAdminUser } from '$lib/server/admin';
 import {
@@ -27,12 +59,34 @@ import {
 interface ChatRequestBody {
 	message?: string;
 	provider?: ChatProvider;
+	model?: string;
 	attachments?: string[];
 	threadId?: string;
+	editMessageId?: number;
+	regenerateMessageId?: number;
 	reasoningEnabled?: boolean;
+	timezone?: string;
+	stream?: boolean;
 }
 
-const allowedProviders = new Set<ChatProvider>(['koboldcpp', 'openrouter']);
+type ChatStreamEvent =
+	| { type: 'start'; threadId: string }
+	| { type: 'delta'; content: string }
+	| { type: 'reasoning'; content: string }
+	| { type: 'tool'; parts: ChatMessagePart[] }
+	| {
+			type: 'done';
+			reply: string;
+			reasoning: string;
+			parts: ChatMessagePart[];
+			generation: GenerationMetadata;
+			provider: ChatProvider;
+			quota: QuotaResult;
+			threadId: string;
+			budget: TokenBudget;
+	  }
+	| { type: 'error'; error: string };
+
 const MAX_MEMORY_PROMPT_ENTRIES = 8;
 const MAX_EXTRACTED_MEMORIES = 6;
 const MAX_EXTRACTED_CONTENT_LENGTH = 280;
@@ -67,9 +121,12 @@ function formatUserMessageForModel(content: string, attachments: string[]): stri
 	return `${content}\n\nAttached files (names only): ${attachments.join(', ')}`;
 }
 
-function toModelMessages(history: Awaited<ReturnType<typeof listMessagesForThread>>): ChatCompletionMessage[] {
-	const slice = history.slice(-20);
-	return slice.map((message) => {
+function toMessageId(value: unknown): number | null {
+	return typeof value === 'number' && Number.isSafeInteger(value) && value > 0 ? value : null;
+}
+
+function toModelMessages(history: ChatMessageRecord[]): ChatCompletionMessage[] {
+	return history.map((message) => {
 		if (message.role === 'user' && message.attachments.length > 0) {
 			return {
 				role: 'user',
@@ -84,6 +141,35 @@ function toModelMessages(history: Awaited<ReturnType<typeof listMessagesForThrea
 	});
 }
 
+function toToolParts(result: ChatToolResult): ChatMessagePart[] {
+	return [
+		{ type: 'tool_call', id: result.callId, name: result.name, arguments: result.arguments },
+		{
+			type: 'tool_result',
+			toolCallId: result.callId,
+			name: result.name,
+			content: result.output,
+			isError: result.isError
+		}
+	];
+}
+
+function toGenerationMetadata(completion: Awaited<ReturnType<typeof completeChat>>): GenerationMetadata {
+	return {
+		provider: completion.provider,
+		model: completion.model,
+		usedFallback: completion.usedFallback,
+		promptTokens: completion.usage?.promptTokens ?? null,
+		completionTokens: completion.usage?.completionTokens ?? null,
+		latencyMs: completion.latencyMs,
+		finishReason: completion.finishReason
+	};
+}
+
+function encodeStreamEvent(event: ChatStreamEvent): Uint8Array {
+	return new TextEncoder().encode(`${JSON.stringify(event)}\n`);
+}
+
 function buildSettingsSystemPrompt(personalizationGuidance: string, memoryEntries: string[]): string | null {
 	const sections: string[] = [];
 	const normalizedGuidance = personalizationGuidance.trim();
@@ -195,9 +281,11 @@ function parseAutoMemoryCandidates(payload: Record<string, unknown> | null): Aut
 }
 
 async function extractAutoMemoryCandidates(
+	userId: string,
 	userMessage: string,
 	assistantReply: string,
-	provider: ChatProvider
+	provider: ChatProvider,
+	model: string | undefined
 ): Promise<AutoMemoryCandidate[]> {
 	const extractorInput = [
 		`User message:\n${userMessage}`,
@@ -217,7 +305,10 @@ async function extractAutoMemoryCandidates(
 		}
 	];
 
-	const extraction = await completeChat(extractionMessages, provider, false);
+	const extraction = await completeChat(extractionMessages, provider, false, { model, pinProvider: true });
+	void recordCompletionUsage(userId, 'memory_extraction', extraction, extractionMessages).catch((error) => {
+		console.error(error);
+	});
 	const parsedPayload = parseJsonObjectFromText(extraction.reply);
 	return parseAutoMemoryCandidates(parsedPayload);
 }
@@ -247,8 +338,10 @@ export const POST: RequestHandler = async ({ request }) => {
 		return json({ error: 'Invalid JSON payload.' }, { status: 400 });
 	}
 
+	const regenerateMessageId = toMessageId(body.regenerateMessageId);
+	const editMessageId = regenerateMessageId === null ? toMessageId(body.editMessageId) : null;
 	const message = typeof body.message === 'string' ? body.message.trim() : '';
-	if (!message) {
+	if (!message && regenerateMessageId === null) {
 		return json({ error: 'Message is required.' }, { status: 400 });
 	}
 
@@ -256,33 +349,125 @@ export const POST: RequestHandler = async ({ request }) => {
 	const reasoningEnabled = body.reasoningEnabled === true;
 	const isAdmin = isAdminUser(user);
 	const requestedProvider =
-		isAdmin && body.provider && allowedProviders.has(body.provider) ? body.provider : undefined;
+		isAdmin && typeof body.provider === 'string' && isProviderEnabled(body.provider) ? body.provider : undefined;
+
+	const requestedModelId = typeof body.model === 'string' ? body.model.trim() : '';
+	let selectedModel: ChatModelEntry | null = null;
+	if (requestedModelId) {
+		selectedModel = findModel(requestedModelId);
+		if (!selectedModel) {
+			return json({ error: 'Unknown model.' }, { status: 400 });
+		}
+
+		try {
+			const role = await ensureUserRole(user.id);
+			if (!canUseModel(selectedModel, role)) {
+				return json({ error: 'Your plan does not include this model.' }, { status: 403 });
+			}
+		} catch (error) {
+			const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
+			return json({ error: messageText }, { status: 500 });
+		}
+	}
+
+	const completionProvider = selectedModel?.provider ?? requestedProvider;
+	const completionOptions = { model: selectedModel?.model };
+
+	let reservationId: number | null = null;
+	// Failed or cancelled replies give the reserved quota back; the ledger keeps them as refunds.
+	const releaseReservation = (settlement: Partial<UsageSettlement> = {}) => {
+		if (reservationId === null) {
+			return;
+		}
+		void releaseQuota(reservationId, {
+			provider: completionProvider ?? null,
+			model: selectedModel?.model ?? null,
+			promptTokens: 0,
+			completionTokens: 0,
+			costUsd: 0,
+			estimated: true,
+			...settlement
+		}).catch((error) => {
+			console.error(error);
+		});
+	};
 
 	try {
-		const quota = await consumeDailyQuota(user.id);
+		let thread =
+			typeof body.threadId === 'string' && body.threadId.trim().length > 0
+				? await getThreadForUser(user.id, body.threadId.trim())
+				: null;
+		if (!thread && (editMessageId !== null || regenerateMessageId !== null)) {
+			return json({ error: 'Chat not found.' }, { status: 404 });
+		}
+
+		const tree = thread ? await getMessageTree(user.id, thread.id) : null;
+		let branchPath: ChatMessageRecord[] = tree ? getActivePath(tree) : [];
+		if (tree && regenerateMessageId !== null) {
+			const target = findMessageInTree(tree, regenerateMessageId);
+			if (!target || target.role !== 'assistant' || target.parentId === null) {
+				return json({ error: 'Only assistant replies can be regenerated.' }, { status: 400 });
+			}
+			branchPath = getPathToMessage(tree, target.parentId);
+		} else if (tree && editMessageId !== null) {
+			const target = findMessageInTree(tree, editMessageId);
+			if (!target || target.role !== 'user') {
+				return json({ error: 'Only your own messages can be edited.' }, { status: 400 });
+			}
+			branchPath = getPathToMessage(tree, target.parentId);
+		}
+
+		const reservation = await reserveQuota(user.id);
+		const quota = reservation.quota;
+		reservationId = reservation.reservationId;
 		if (!quota.allowed) {
 			return json(
 				{
-					error: "You're cut off! Go outside. Touch some grass.",
+					error: describeQuotaExceeded(quota),
 					quota
 				},
-				{ status: 429 }
+				{
+					status: 429,
+					headers: {
+						'Retry-After': String(Math.max(Math.ceil((Date.parse(quota.resetsAt) - Date.now()) / 1000), 1))
+					}
+				}
 			);
 		}
 
-		let thread =
-			typeof body.threadId === 'string' && body.threadId.trim().length > 0
-				? await getThreadForUser(user.id, body.threadId.trim())
-				: null;
+		const tools = getToolsForRole(quota.role, { userId: user.id, timezone: normalizeTimezone(body.timezone) });
 
+		const isNewThread = !thread;
 		if (!thread) {
 			thread = await createThreadForUser(user.id, normalizeThreadTitle(message));
 		}
+		if (tree) {
+			await persistLegacyMessageTree(user.id, tree);
+		}
+
+		const persistedMessages = [...branchPath];
+		if (regenerateMessageId === null) {
+			const userRecord = await addMessageToThread(user.id, thread.id, 'user', message, attachments, {
+				parentId: branchPath.length > 0 ? branchPath[branchPath.length - 1].id : null
+			});
+			await touchThread(thread.id, userRecord.id);
+			persistedMessages.push(userRecord);
+		}
+		const replyParentId = persistedMessages[persistedMessages.length - 1].id;
+		const promptMessage = persistedMessages[persistedMessages.length - 1].content;
 
-		await addMessageToThread(user.id, thread.id, 'user', message, attachments);
+		let threadSummary: Awaited<ReturnType<typeof getThreadSummary>> = null;
+		try {
+			const storedSummary = await getThreadSummary(user.id, thread.id);
+			// A summary left by another branch would hide this path's own older messages.
+			threadSummary = isSummaryOnPath(storedSummary, persistedMessages) ? storedSummary : null;
+		} catch (summaryError) {
+			console.error(summaryError);
+		}
 
-		const persistedMessages = await listMessagesForThread(user.id, thread.id);
-		const modelMessages = toModelMessages(persistedMessages);
+		const coveredMessageId = threadSummary?.coveredMessageId ?? 0;
+		const unsummarizedMessages = persistedMessages.filter((item) => item.id > coveredMessageId);
+		const modelMessages = toModelMessages(unsummarizedMessages);
 
 		let memoryStorageAvailable = true;
 		let userSettings = defaultUserSettings(user.id);
@@ -303,55 +488,254 @@ export const POST: RequestHandler = async ({ request }) => {
 
 		const relevantMemories =
 			userSettings.memoryEnabled && memoryStorageAvailable
-				? selectRelevantMemories(userMemories, message, MAX_MEMORY_PROMPT_ENTRIES)
+				? selectRelevantMemories(userMemories, promptMessage, MAX_MEMORY_PROMPT_ENTRIES)
 				: [];
 		const settingsSystemPrompt = buildSettingsSystemPrompt(
 			userSettings.personalizationGuidance,
 			relevantMemories.map((memory) => memory.content)
 		);
 
-		const messagesForModel: ChatCompletionMessage[] = settingsSystemPrompt
-			? [{ role: 'system', content: settingsSystemPrompt }, ...modelMessages]
-			: modelMessages;
-		const completion = await completeChat(messagesForModel, requestedProvider, reasoningEnabled);
-
-		await addMessageToThread(user.id, thread.id, 'assistant', completion.reply, []);
-		await touchThread(thread.id);
+		const systemMessages: ChatCompletionMessage[] = [];
+		if (settingsSystemPrompt) {
+			systemMessages.push({ role: 'system', content: settingsSystemPrompt });
+		}
+		if (threadSummary) {
+			systemMessages.push(buildSummarySystemMessage(threadSummary));
+		}
 
-		if (memoryStorageAvailable && userSettings.memoryEnabled && relevantMemories.length > 0) {
-			void touchMemories(
-				user.id,
-				relevantMemories.map((memory) => memory.id)
-			).catch((error) => {
-				console.error(error);
+		const contextLength = selectedModel?.contextLength ?? getDefaultContextLength();
+		const { messages: messagesForModel, budget } = fitMessagesToBudget(
+			systemMessages,
+			modelMessages,
+			contextLength
+		);
+		const droppedMessages = unsummarizedMessages.slice(0, budget.droppedMessages);
+		const threadId = thread.id;
+
+		let replyPersisted = false;
+		const finalizeReply = async (completion: Awaited<ReturnType<typeof completeChat>>) => {
+			const { reply, provider } = completion;
+			// A catalog model only exists on its own provider, so background calls on the fallback use its default.
+			const model = provider === selectedModel?.provider ? selectedModel.model : undefined;
+			const parts = completion.toolResults.flatMap(toToolParts);
+			const generation = toGenerationMetadata(completion);
+			const assistantRecord = await addMessageToThread(user.id, threadId, 'assistant', reply, [], {
+				parentId: replyParentId,
+				reasoning: completion.reasoning,
+				parts,
+				generation
 			});
-		}
+			// Once the reply is saved, a later failure must neither save a partial copy nor refund the quota.
+			replyPersisted = true;
 
-		if (
-			memoryStorageAvailable &&
-			userSettings.memoryEnabled &&
-			userSettings.autoMemoryEnabled &&
-			shouldAttemptAutoMemoryCapture(message)
-		) {
-			void extractAutoMemoryCandidates(message, completion.reply, completion.provider)
-				.then(async (candidates) => {
-					if (candidates.length === 0) {
-						return;
-					}
-					await mergeAutoMemories(user.id, candidates, userMemories);
-				})
-				.catch((error) => {
+			if (reservationId !== null) {
+				const settlement = buildCompletionSettlement(completion, messagesForModel, {
+					threadId,
+					messageId: assistantRecord.id
+				});
+				void commitQuota(reservationId, settlement).catch((error) => {
+					console.error(error);
+				});
+				reservationId = null;
+			}
+
+			await touchThread(threadId, assistantRecord.id);
+
+			if (isNewThread && userSettings.autoTitleEnabled && reply.trim()) {
+				void generateThreadTitle(user.id, threadId, promptMessage, reply, {
+					provider,
+					model
+				}).catch((error) => {
 					console.error(error);
 				});
+			}
+
+			if (droppedMessages.length > 0) {
+				void refreshThreadSummary(user.id, threadId, persistedMessages, droppedMessages, {
+					provider,
+					model,
+					contextLength
+				}).catch((error) => {
+					console.error(`Failed to refresh the summary of chat ${threadId}.`, error);
+				});
+			}
+
+			if (memoryStorageAvailable && userSettings.memoryEnabled && relevantMemories.length > 0) {
+				void touchMemories(
+					user.id,
+					relevantMemories.map((memory) => memory.id)
+				).catch((error) => {
+					console.error(error);
+				});
+			}
+
+			if (
+				memoryStorageAvailable &&
+				userSettings.memoryEnabled &&
+				userSettings.autoMemoryEnabled &&
+				shouldAttemptAutoMemoryCapture(promptMessage)
+			) {
+				void extractAutoMemoryCandidates(user.id, promptMessage, reply, provider, model)
+					.then(async (candidates) => {
+						if (candidates.length === 0) {
+							return;
+						}
+						await mergeAutoMemories(user.id, candidates, userMemories);
+					})
+					.catch((error) => {
+						console.error(error);
+					});
+			}
+
+			return { parts, generation };
+		};
+
+		if (body.stream === true) {
+			let clientConnected = true;
+			const generationController = new AbortController();
+			const stream = new ReadableStream<Uint8Array>({
+				async start(controller) {
+					const send = (event: ChatStreamEvent) => {
+						if (!clientConnected) {
+							return;
+						}
+						try {
+							controller.enqueue(encodeStreamEvent(event));
+						} catch {
+							clientConnected = false;
+						}
+					};
+
+					let partialReply = '';
+					let partialReasoning = '';
+					const partialParts: ChatMessagePart[] = [];
+					const startedAt = Date.now();
+					send({ type: 'start', threadId });
+
+					try {
+						const completion = await completeChat(messagesForModel, completionProvider, reasoningEnabled, {
+							...completionOptions,
+							tools,
+							signal: generationController.signal,
+							onDelta: (delta) => {
+								partialReply += delta;
+								send({ type: 'delta', content: delta });
+							},
+							onReasoningDelta: (delta) => {
+								partialReasoning += delta;
+								send({ type: 'reasoning', content: delta });
+							},
+							onToolResult: (result) => {
+								const parts = toToolParts(result);
+								partialParts.push(...parts);
+								send({ type: 'tool', parts });
+							}
+						});
+
+						const { parts, generation } = await finalizeReply(completion);
+						send({
+							type: 'done',
+							reply: completion.reply,
+							reasoning: completion.reasoning,
+							parts,
+							generation,
+							provider: completion.provider,
+							quota,
+							threadId,
+							budget
+						});
+					} catch (error) {
+						const stopped = generationController.signal.aborted;
+						if (!stopped) {
+							console.error(error);
+						}
+
+						const partial = partialReply.trim();
+						if (partial && !replyPersisted) {
+							try {
+								const partialRecord = await addMessageToThread(user.id, threadId, 'assistant', partial, [], {
+									parentId: replyParentId,
+									reasoning: partialReasoning.trim(),
+									stopped,
+									parts: partialParts,
+									generation: {
+										provider: completionProvider ?? null,
+										model: selectedModel?.model ?? null,
+										usedFallback: false,
+										promptTokens: null,
+										completionTokens: null,
+										latencyMs: Date.now() - startedAt,
+										finishReason: stopped ? 'stopped' : 'error'
+									}
+								});
+								await touchThread(threadId, partialRecord.id);
+							} catch (persistError) {
+								console.error(persistError);
+							}
+						}
+
+						// The provider billed whatever it streamed even though the reply never finished.
+						const model = selectedModel?.model ?? null;
+						const promptTokens = partial ? budget.promptTokens : 0;
+						const completionTokens = estimateTokens(partialReply) + estimateTokens(partialReasoning);
+						releaseReservation({
+							promptTokens,
+							completionTokens,
+							costUsd: completionProvider
+								? computeCostUsd(completionProvider, model, promptTokens, completionTokens)
+								: 0,
+							threadId
+						});
+						send({
+							type: 'error',
+							error: error instanceof Error ? error.message : 'Unexpected server error.'
+						});
+					} finally {
+						if (clientConnected) {
+							try {
+								controller.close();
+							} catch {
+								// The client may have gone away between the last event and close.
+							}
+						}
+					}
+				},
+				cancel() {
+					// Closing the response is how the client stops a generation, so stop the provider call too.
+					clientConnected = false;
+					generationController.abort();
+				}
+			});
+
+			return new Response(stream, {
+				headers: {
+					'Content-Type': 'application/x-ndjson; charset=utf-8',
+					'Cache-Control': 'no-cache, no-transform',
+					'X-Accel-Buffering': 'no'
+				}
+			});
 		}
 
+		const completion = await completeChat(
+			messagesForModel,
+			completionProvider,
+			reasoningEnabled,
+			{ ...completionOptions, tools, signal: request.signal }
+		);
+		const { parts, generation } = await finalizeReply(completion);
+
 		return json({
 			reply: completion.reply,
+			reasoning: completion.reasoning,
+			parts,
+			generation,
 			provider: completion.provider,
 			quota,
-			threadId: thread.id
+			threadId,
+			budget
 		});
 	} catch (error) {
+		releaseReservation();
 		const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
 		return json({ error: messageText }, { status: 500 });
 	}
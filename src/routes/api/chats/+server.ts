@@ -1,9 +1,9 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { getUserFromAccessToken, readBearerToken } from '$lib/server/supabase-auth';
-import { listThreadsForUser } from '$lib/server/chats';
+import { isUuid, listThreadsForUser, parseThreadCursor } from '$lib/server/chats';
 
-export const GET: RequestHandler = async ({ request }) => {
+export const GET: RequestHandler = async ({ request, url }) => {
 	const accessToken = readBearerToken(request.headers.get('authorization'));
 	if (!accessToken) {
 		return json({ error: 'Unauthorized. Missing bearer token.' }, { status: 401 });
@@ -21,9 +21,29 @@ export const GET: RequestHandler = async ({ request }) => {
 		return json({ error: 'Unauthorized. Invalid or expired session.' }, { status: 401 });
 	}
 
+	const cursorParam = url.searchParams.get('cursor');
+	const cursor = cursorParam ? parseThreadCursor(cursorParam) : null;
+	if (cursorParam && !cursor) {
+		return json({ error: 'Invalid cursor.' }, { status: 400 });
+	}
+
+	// folderId=none lists chats that are not in any folder.
+	const folderParam = url.searchParams.get('folderId');
+	if (folderParam && folderParam !== 'none' && !isUuid(folderParam)) {
+		return json({ error: 'Invalid folder id.' }, { status: 400 });
+	}
+	const pinnedParam = url.searchParams.get('pinned');
+
 	try {
-		const threads = await listThreadsForUser(user.id);
-		return json({ threads });
+		const { threads, nextCursor } = await listThreadsForUser(user.id, {
+			cursor,
+			limit: Number(url.searchParams.get('limit')),
+			archived: url.searchParams.get('archived') === 'true',
+			pinned: pinnedParam === 'true' ? true : pinnedParam === 'false' ? false : undefined,
+			folderId: folderParam === 'none' ? null : (folderParam ?? undefined),
+			tag: url.searchParams.get('tag') ?? undefined
+		});
+		return json({ threads, nextCursor });
 	} catch (error) {
 		const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
 		return json({ error: messageText }, { status: 500 });
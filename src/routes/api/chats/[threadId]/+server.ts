@@ -1,14 +1,18 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { getUserFromAccessToken, readBearerToken } from '$lib/server/supabase-auth';
+import { getFolderForUser } from '$lib/server/chat-folders';
 import {
 	deleteThreadForUser,
 	getThreadForUser,
 	listMessagesForThread,
-	renameThreadForUser
+	normalizeThreadTags,
+	parseMessageCursor,
+	updateThreadForUser,
+	type ThreadUpdate
 } from '$lib/server/chats';
 
-export const GET: RequestHandler = async ({ request, params }) => {
+export const GET: RequestHandler = async ({ request, params, url }) => {
 	const accessToken = readBearerToken(request.headers.get('authorization'));
 	if (!accessToken) {
 		return json({ error: 'Unauthorized. Missing bearer token.' }, { status: 401 });
@@ -31,14 +35,23 @@ export const GET: RequestHandler = async ({ request, params }) => {
 		return json({ error: 'Missing thread id.' }, { status: 400 });
 	}
 
+	const cursorParam = url.searchParams.get('cursor');
+	const cursor = cursorParam ? parseMessageCursor(cursorParam) : null;
+	if (cursorParam && cursor === null) {
+		return json({ error: 'Invalid cursor.' }, { status: 400 });
+	}
+
 	try {
 		const thread = await getThreadForUser(user.id, threadId);
 		if (!thread) {
 			return json({ error: 'Chat not found.' }, { status: 404 });
 		}
 
-		const messages = await listMessagesForThread(user.id, thread.id);
-		return json({ thread, messages });
+		const { messages, nextCursor } = await listMessagesForThread(user.id, thread.id, {
+			cursor,
+			limit: Number(url.searchParams.get('limit'))
+		});
+		return json({ thread, messages, nextCursor });
 	} catch (error) {
 		const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
 		return json({ error: messageText }, { status: 500 });
@@ -68,20 +81,52 @@ export const PATCH: RequestHandler = async ({ request, params }) => {
 		return json({ error: 'Missing thread id.' }, { status: 400 });
 	}
 
-	let payload: { title?: unknown };
+	let payload: Record<string, unknown>;
 	try {
-		payload = (await request.json()) as { title?: unknown };
+		payload = (await request.json()) as Record<string, unknown>;
 	} catch {
 		return json({ error: 'Invalid JSON payload.' }, { status: 400 });
 	}
 
-	const title = typeof payload.title === 'string' ? payload.title.trim() : '';
-	if (!title) {
-		return json({ error: 'Title is required.' }, { status: 400 });
+	const update: ThreadUpdate = {};
+	if (payload.title !== undefined) {
+		const title = typeof payload.title === 'string' ? payload.title.trim() : '';
+		if (!title) {
+			return json({ error: 'Title is required.' }, { status: 400 });
+		}
+		update.title = title;
+	}
+	for (const key of ['pinned', 'archived'] as const) {
+		if (payload[key] !== undefined) {
+			if (typeof payload[key] !== 'boolean') {
+				return json({ error: `${key} must be true or false.` }, { status: 400 });
+			}
+			update[key] = payload[key];
+		}
+	}
+	if (payload.folderId !== undefined) {
+		if (payload.folderId !== null && typeof payload.folderId !== 'string') {
+			return json({ error: 'folderId must be a folder id or null.' }, { status: 400 });
+		}
+		update.folderId = payload.folderId;
+	}
+	if (payload.tags !== undefined) {
+		const tags = normalizeThreadTags(payload.tags);
+		if (!tags) {
+			return json({ error: 'Tags must be a list of strings.' }, { status: 400 });
+		}
+		update.tags = tags;
+	}
+	if (Object.keys(update).length === 0) {
+		return json({ error: 'Nothing to update.' }, { status: 400 });
 	}
 
 	try {
-		const thread = await renameThreadForUser(user.id, threadId, title);
+		if (update.folderId && !(await getFolderForUser(user.id, update.folderId))) {
+			return json({ error: 'Folder not found.' }, { status: 404 });
+		}
+
+		const thread = await updateThreadForUser(user.id, threadId, update);
 		if (!thread) {
 			return json({ error: 'Chat not found.' }, { status: 404 });
 		}
@@ -0,0 +1,57 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getUserFromAccessToken, readBearerToken } from '$lib/server/supabase-auth';
+import { getThreadForUser, setActiveBranch } from '$lib/server/chats';
+
+export const PUT: RequestHandler = async ({ request, params }) => {
+	const accessToken = readBearerToken(request.headers.get('authorization'));
+	if (!accessToken) {
+		return json({ error: 'Unauthorized. Missing bearer token.' }, { status: 401 });
+	}
+
+	let user: Awaited<ReturnType<typeof getUserFromAccessToken>>;
+	try {
+		user = await getUserFromAccessToken(accessToken);
+	} catch (error) {
+		const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
+		return json({ error: messageText }, { status: 500 });
+	}
+
+	if (!user) {
+		return json({ error: 'Unauthorized. Invalid or expired session.' }, { status: 401 });
+	}
+
+	const threadId = params.threadId;
+	if (!threadId) {
+		return json({ error: 'Missing thread id.' }, { status: 400 });
+	}
+
+	let payload: { messageId?: unknown };
+	try {
+		payload = (await request.json()) as { messageId?: unknown };
+	} catch {
+		return json({ error: 'Invalid JSON payload.' }, { status: 400 });
+	}
+
+	const messageId = payload.messageId;
+	if (typeof messageId !== 'number' || !Number.isSafeInteger(messageId) || messageId <= 0) {
+		return json({ error: 'Message id is required.' }, { status: 400 });
+	}
+
+	try {
+		const thread = await getThreadForUser(user.id, threadId);
+		if (!thread) {
+			return json({ error: 'Chat not found.' }, { status: 404 });
+		}
+
+		const messages = await setActiveBranch(user.id, thread.id, messageId);
+		if (!messages) {
+			return json({ error: 'Message not found.' }, { status: 404 });
+		}
+
+		return json({ messages });
+	} catch (error) {
+		const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
+		return json({ error: messageText }, { status: 500 });
+	}
+};
@@ -0,0 +1,53 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getUserFromAccessToken, readBearerToken } from '$lib/server/supabase-auth';
+import { getThreadForUser } from '$lib/server/chats';
+import { isExportFormat, loadThreadExport, renderThreadExport } from '$lib/server/chat-export';
+
+export const GET: RequestHandler = async ({ request, params, url }) => {
+	const accessToken = readBearerToken(request.headers.get('authorization'));
+	if (!accessToken) {
+		return json({ error: 'Unauthorized. Missing bearer token.' }, { status: 401 });
+	}
+
+	let user: Awaited<ReturnType<typeof getUserFromAccessToken>>;
+	try {
+		user = await getUserFromAccessToken(accessToken);
+	} catch (error) {
+		const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
+		return json({ error: messageText }, { status: 500 });
+	}
+
+	if (!user) {
+		return json({ error: 'Unauthorized. Invalid or expired session.' }, { status: 401 });
+	}
+
+	const threadId = params.threadId;
+	if (!threadId) {
+		return json({ error: 'Missing thread id.' }, { status: 400 });
+	}
+
+	const format = url.searchParams.get('format') ?? 'md';
+	if (!isExportFormat(format)) {
+		return json({ error: 'Format must be md, json or html.' }, { status: 400 });
+	}
+
+	try {
+		const thread = await getThreadForUser(user.id, threadId);
+		if (!thread) {
+			return json({ error: 'Chat not found.' }, { status: 404 });
+		}
+
+		const rendered = renderThreadExport(await loadThreadExport(user.id, thread), format);
+		return new Response(rendered.body, {
+			headers: {
+				'Content-Type': rendered.contentType,
+				'Content-Disposition': `attachment; filename="${rendered.fileName}"`,
+				'Cache-Control': 'no-store'
+			}
+		});
+	} catch (error) {
+		const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
+		return json({ error: messageText }, { status: 500 });
+	}
+};
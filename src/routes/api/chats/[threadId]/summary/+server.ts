@@ -0,0 +1,77 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getUserFromAccessToken, readBearerToken } from '$lib/server/supabase-auth';
+import { clearThreadSummary, getThreadForUser, getThreadSummary } from '$lib/server/chats';
+
+export const GET: RequestHandler = async ({ request, params }) => {
+	const accessToken = readBearerToken(request.headers.get('authorization'));
+	if (!accessToken) {
+		return json({ error: 'Unauthorized. Missing bearer token.' }, { status: 401 });
+	}
+
+	let user: Awaited<ReturnType<typeof getUserFromAccessToken>>;
+	try {
+		user = await getUserFromAccessToken(accessToken);
+	} catch (error) {
+		const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
+		return json({ error: messageText }, { status: 500 });
+	}
+
+	if (!user) {
+		return json({ error: 'Unauthorized. Invalid or expired session.' }, { status: 401 });
+	}
+
+	const threadId = params.threadId;
+	if (!threadId) {
+		return json({ error: 'Missing thread id.' }, { status: 400 });
+	}
+
+	try {
+		const thread = await getThreadForUser(user.id, threadId);
+		if (!thread) {
+			return json({ error: 'Chat not found.' }, { status: 404 });
+		}
+
+		const summary = await getThreadSummary(user.id, thread.id);
+		return json({ summary });
+	} catch (error) {
+		const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
+		return json({ error: messageText }, { status: 500 });
+	}
+};
+
+export const DELETE: RequestHandler = async ({ request, params }) => {
+	const accessToken = readBearerToken(request.headers.get('authorization'));
+	if (!accessToken) {
+		return json({ error: 'Unauthorized. Missing bearer token.' }, { status: 401 });
+	}
+
+	let user: Awaited<ReturnType<typeof getUserFromAccessToken>>;
+	try {
+		user = await getUserFromAccessToken(accessToken);
+	} catch (error) {
+		const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
+		return json({ error: messageText }, { status: 500 });
+	}
+
+	if (!user) {
+		return json({ error: 'Unauthorized. Invalid or expired session.' }, { status: 401 });
+	}
+
+	const threadId = params.threadId;
+	if (!threadId) {
+		return json({ error: 'Missing thread id.' }, { status: 400 });
+	}
+
+	try {
+		const reset = await clearThreadSummary(user.id, threadId);
+		if (!reset) {
+			return json({ error: 'Chat not found.' }, { status: 404 });
+		}
+
+		return json({ reset: true });
+	} catch (error) {
+		const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
+		return json({ error: messageText }, { status: 500 });
+	}
+};
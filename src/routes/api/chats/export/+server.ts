@@ -0,0 +1,39 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getUserFromAccessToken, readBearerToken } from '$lib/server/supabase-auth';
+import { generateExportEntries, isExportFormat } from '$lib/server/chat-export';
+import { createZipStream } from '$lib/server/zip';
+
+export const GET: RequestHandler = async ({ request, url }) => {
+	const accessToken = readBearerToken(request.headers.get('authorization'));
+	if (!accessToken) {
+		return json({ error: 'Unauthorized. Missing bearer token.' }, { status: 401 });
+	}
+
+	let user: Awaited<ReturnType<typeof getUserFromAccessToken>>;
+	try {
+		user = await getUserFromAccessToken(accessToken);
+	} catch (error) {
+		const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
+		return json({ error: messageText }, { status: 500 });
+	}
+
+	if (!user) {
+		return json({ error: 'Unauthorized. Invalid or expired session.' }, { status: 401 });
+	}
+
+	const format = url.searchParams.get('format') ?? 'json';
+	if (!isExportFormat(format)) {
+		return json({ error: 'Format must be md, json or html.' }, { status: 400 });
+	}
+
+	// Headers go out before the first thread is read, so a failure part-way through truncates the download.
+	const fileName = `raven-chats-${new Date().toISOString().slice(0, 10)}.zip`;
+	return new Response(createZipStream(generateExportEntries(user.id, format)), {
+		headers: {
+			'Content-Type': 'application/zip',
+			'Content-Disposition': `attachment; filename="${fileName}"`,
+			'Cache-Control': 'no-store'
+		}
+	});
+};
@@ -0,0 +1,52 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getUserFromAccessToken, readBearerToken } from '$lib/server/supabase-auth';
+import { importConversations, parseImportFile } from '$lib/server/chat-import';
+
+export const POST: RequestHandler = async ({ request }) => {
+	const accessToken = readBearerToken(request.headers.get('authorization'));
+	if (!accessToken) {
+		return json({ error: 'Unauthorized. Missing bearer token.' }, { status: 401 });
+	}
+
+	let user: Awaited<ReturnType<typeof getUserFromAccessToken>>;
+	try {
+		user = await getUserFromAccessToken(accessToken);
+	} catch (error) {
+		const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
+		return json({ error: messageText }, { status: 500 });
+	}
+
+	if (!user) {
+		return json({ error: 'Unauthorized. Invalid or expired session.' }, { status: 401 });
+	}
+
+	let payload: unknown;
+	try {
+		payload = await request.json();
+	} catch {
+		return json({ error: 'Import file must be valid JSON.' }, { status: 400 });
+	}
+
+	const parsed = parseImportFile(payload);
+	if (!parsed) {
+		return json(
+			{ error: 'Unrecognized file. Upload a ChatGPT conversations.json or a Raven JSON export.' },
+			{ status: 400 }
+		);
+	}
+
+	try {
+		const results = await importConversations(user.id, parsed);
+		return json({
+			source: parsed.source,
+			results,
+			imported: results.filter((result) => result.status === 'imported').length,
+			skipped: results.filter((result) => result.status === 'skipped').length,
+			failed: results.filter((result) => result.status === 'failed').length
+		});
+	} catch (error) {
+		const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
+		return json({ error: messageText }, { status: 500 });
+	}
+};
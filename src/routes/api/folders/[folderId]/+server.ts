@@ -0,0 +1,88 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getUserFromAccessToken, readBearerToken } from '$lib/server/supabase-auth';
+import { deleteFolderForUser, normalizeFolderName, renameFolderForUser } from '$lib/server/chat-folders';
+
+export const PATCH: RequestHandler = async ({ request, params }) => {
+	const accessToken = readBearerToken(request.headers.get('authorization'));
+	if (!accessToken) {
+		return json({ error: 'Unauthorized. Missing bearer token.' }, { status: 401 });
+	}
+
+	let user: Awaited<ReturnType<typeof getUserFromAccessToken>>;
+	try {
+		user = await getUserFromAccessToken(accessToken);
+	} catch (error) {
+		const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
+		return json({ error: messageText }, { status: 500 });
+	}
+
+	if (!user) {
+		return json({ error: 'Unauthorized. Invalid or expired session.' }, { status: 401 });
+	}
+
+	const folderId = params.folderId;
+	if (!folderId) {
+		return json({ error: 'Missing folder id.' }, { status: 400 });
+	}
+
+	let payload: { name?: unknown };
+	try {
+		payload = (await request.json()) as { name?: unknown };
+	} catch {
+		return json({ error: 'Invalid JSON payload.' }, { status: 400 });
+	}
+
+	const name = normalizeFolderName(payload.name);
+	if (!name) {
+		return json({ error: 'Folder name is required.' }, { status: 400 });
+	}
+
+	try {
+		const folder = await renameFolderForUser(user.id, folderId, name);
+		if (!folder) {
+			return json({ error: 'Folder not found.' }, { status: 404 });
+		}
+
+		return json({ folder });
+	} catch (error) {
+		const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
+		return json({ error: messageText }, { status: 500 });
+	}
+};
+
+export const DELETE: RequestHandler = async ({ request, params }) => {
+	const accessToken = readBearerToken(request.headers.get('authorization'));
+	if (!accessToken) {
+		return json({ error: 'Unauthorized. Missing bearer token.' }, { status: 401 });
+	}
+
+	let user: Awaited<ReturnType<typeof getUserFromAccessToken>>;
+	try {
+		user = await getUserFromAccessToken(accessToken);
+	} catch (error) {
+		const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
+		return json({ error: messageText }, { status: 500 });
+	}
+
+	if (!user) {
+		return json({ error: 'Unauthorized. Invalid or expired session.' }, { status: 401 });
+	}
+
+	const folderId = params.folderId;
+	if (!folderId) {
+		return json({ error: 'Missing folder id.' }, { status: 400 });
+	}
+
+	try {
+		const removed = await deleteFolderForUser(user.id, folderId);
+		if (!removed) {
+			return json({ error: 'Folder not found.' }, { status: 404 });
+		}
+
+		return json({ deleted: true });
+	} catch (error) {
+		const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
+		return json({ error: messageText }, { status: 500 });
+	}
+};
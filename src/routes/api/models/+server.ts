@@ -0,0 +1,40 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getUserFromAccessToken, readBearerToken } from '$lib/server/supabase-auth';
+import { listModelsForRole } from '$lib/server/models';
+import { ensureUserRole } from '$lib/server/quota';
+
+export const GET: RequestHandler = async ({ request }) => {
+	const accessToken = readBearerToken(request.headers.get('authorization'));
+	if (!accessToken) {
+		return json({ error: 'Unauthorized. Missing bearer token.' }, { status: 401 });
+	}
+
+	let user: Awaited<ReturnType<typeof getUserFromAccessToken>>;
+	try {
+		user = await getUserFromAccessToken(accessToken);
+	} catch (error) {
+		const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
+		return json({ error: messageText }, { status: 500 });
+	}
+
+	if (!user) {
+		return json({ error: 'Unauthorized. Invalid or expired session.' }, { status: 401 });
+	}
+
+	try {
+		const role = await ensureUserRole(user.id);
+		const models = listModelsForRole(role).map((entry) => ({
+			id: entry.id,
+			displayName: entry.displayName,
+			provider: entry.provider,
+			contextLength: entry.contextLength,
+			capabilities: entry.capabilities,
+			roles: entry.roles
+		}));
+		return json({ models, role });
+	} catch (error) {
+		const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
+		return json({ error: messageText }, { status: 500 });
+	}
+};
@@ -3,6 +3,7 @@ import type { RequestHandler } from './$types';
 import { ensureUserRole, setUserRole } from '$lib/server/quota';
 import { getUserFromAccessToken, readBearerToken } from '$lib/server/supabase-auth';
 import { isAdminUser } from '$lib/server/admin';
+import { listEnabledProviders } from '$lib/server/chat-providers';
 
 export const GET: RequestHandler = async ({ request }) => {
 	const accessToken = readBearerToken(request.headers.get('authorization'));
@@ -25,7 +26,8 @@ export const GET: RequestHandler = async ({ request }) => {
 		return json({
 			user,
 			role,
-			isAdmin
+			isAdmin,
+			providers: isAdmin ? listEnabledProviders() : []
 		});
 	} catch (error) {
 		const messageText = error instanceof Error ? error.message : 'Unexpected server error.';
@@ -87,12 +87,14 @@ export const PATCH: RequestHandler = async ({ request }) => {
 			: undefined;
 	const memoryEnabled = parseBoolean(payload.memoryEnabled);
 	const autoMemoryEnabled = parseBoolean(payload.autoMemoryEnabled);
+	const autoTitleEnabled = parseBoolean(payload.autoTitleEnabled);
 
 	try {
 		const settings = await upsertUserSettings(user.id, {
 			personalizationGuidance,
 			memoryEnabled,
-			autoMemoryEnabled
+			autoMemoryEnabled,
+			autoTitleEnabled
 		});
 
 		return json({ settings, storageAvailable: true });
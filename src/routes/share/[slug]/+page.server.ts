@@ -0,0 +1,17 @@
+import { error } from '@sveltejs/kit';
+import type { PageServerLoad } from './$types';
+import { getSharedSnapshot } from '$lib/server/chat-shares';
+
+// Public on purpose: anyone with the link can read the snapshot, so it is never cached and a revoked link stops at once.
+export const load: PageServerLoad = async ({ params, setHeaders }) => {
+	const snapshot = await getSharedSnapshot(params.slug);
+	if (!snapshot) {
+		error(404, 'This shared chat does not exist or the link was revoked.');
+	}
+
+	setHeaders({
+		'cache-control': 'no-store',
+		'x-robots-tag': 'noindex'
+	});
+	return { snapshot };
+};